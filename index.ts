@@ -164,10 +164,15 @@ app.get('/api/users/:id',
   }
 );
 
-// File upload simulation
+// File upload (multipart/form-data fields land in req.body, files in req.files)
 app.post('/api/upload', (req, res) => {
-  // In a real app, you would handle file uploads here
-  res.json({ message: 'File upload endpoint - implement file handling as needed' });
+  const files = Object.values(req.files || {}).flat();
+  
+  res.json({ 
+    message: 'Upload received',
+    fields: req.body,
+    files: files.map(file => ({ field: file.fieldName, name: file.filename, type: file.mimeType, size: file.size }))
+  });
 });
 
 // Template rendering example
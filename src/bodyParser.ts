@@ -0,0 +1,217 @@
+import type { EfwRequest } from './types';
+import { EfwError } from './utils/errors';
+import { parseMultipart, type MultipartOptions } from './utils/multipart';
+
+export interface BodyParserOptions {
+  limit?: number | string; // bytes or a size string such as '1mb'
+  strict?: boolean; // JSON only: reject top-level primitives (off by default)
+  reviver?: (key: string, value: any) => any; // JSON only
+  keepRawBody?: boolean; // keep the unparsed bytes on req.rawBody
+}
+
+export interface BufferedBodyParser {
+  limit?: number | string;
+  keepRawBody?: boolean;
+  parse(raw: Uint8Array, req: EfwRequest): any | Promise<any>;
+}
+
+export interface StreamingBodyParser {
+  stream: true;
+  parse(body: ReadableStream<Uint8Array> | null, req: EfwRequest): any | Promise<any>;
+}
+
+export type BodyParser = BufferedBodyParser | StreamingBodyParser;
+
+const DEFAULT_LIMIT = 1024 * 1024;
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+export function parseSize(size: number | string | undefined, fallback: number = DEFAULT_LIMIT): number {
+  if (size === undefined) return fallback;
+  if (typeof size === 'number') return size;
+
+  const match = size.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/);
+  if (!match) {
+    throw new Error(`Invalid size limit: ${size}`);
+  }
+  return Math.floor(parseFloat(match[1]!) * SIZE_UNITS[match[2] ?? 'b']!);
+}
+
+function getMimeType(contentType: string): string {
+  return contentType.split(';')[0]!.trim().toLowerCase();
+}
+
+function matchesType(mimeType: string, pattern: string): boolean {
+  if (pattern === mimeType || pattern === '*/*') return true;
+  if (!pattern.includes('*')) return false;
+
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\\/]/g, '\\$&')).join('[^/]*')}$`);
+  return regex.test(mimeType);
+}
+
+async function readBody(body: ReadableStream<Uint8Array> | null, limit: number): Promise<Uint8Array> {
+  if (!body) return new Uint8Array(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    size += chunk.byteLength;
+    if (size > limit) {
+      throw new EfwError(`Request body exceeds the ${limit} byte limit`, 413);
+    }
+    chunks.push(chunk);
+  }
+
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+const decoder = new TextDecoder();
+
+export function json(options: BodyParserOptions = {}): BufferedBodyParser {
+  const strict = options.strict ?? false;
+
+  return {
+    limit: options.limit,
+    keepRawBody: options.keepRawBody,
+    parse(raw) {
+      const text = decoder.decode(raw);
+      if (text.trim() === '') return {};
+
+      if (strict && !/^\s*[{[]/.test(text)) {
+        throw new EfwError('Invalid JSON body: expected an object or array', 400);
+      }
+
+      try {
+        return JSON.parse(text, options.reviver);
+      } catch (error) {
+        throw new EfwError(`Invalid JSON body: ${(error as Error).message}`, 400);
+      }
+    }
+  };
+}
+
+export function urlencoded(options: BodyParserOptions = {}): BufferedBodyParser {
+  return {
+    limit: options.limit,
+    keepRawBody: options.keepRawBody,
+    parse(raw) {
+      return Object.fromEntries(new URLSearchParams(decoder.decode(raw)));
+    }
+  };
+}
+
+export function text(options: BodyParserOptions = {}): BufferedBodyParser {
+  return {
+    limit: options.limit,
+    keepRawBody: options.keepRawBody,
+    parse(raw) {
+      return decoder.decode(raw);
+    }
+  };
+}
+
+export function binary(options: BodyParserOptions = {}): BufferedBodyParser {
+  return {
+    limit: options.limit,
+    keepRawBody: options.keepRawBody,
+    parse(raw) {
+      return raw;
+    }
+  };
+}
+
+/**
+ * Leaves the body as the unread ReadableStream, for proxies and handlers that consume it themselves.
+ */
+export function raw(): StreamingBodyParser {
+  return {
+    stream: true,
+    parse(body) {
+      return body;
+    }
+  };
+}
+
+export function multipart(options: MultipartOptions = {}): StreamingBodyParser {
+  return {
+    stream: true,
+    async parse(body, req) {
+      const { fields, files } = await parseMultipart(body, req.headers['content-type'] || '', options);
+      req.files = files;
+      return fields;
+    }
+  };
+}
+
+export class BodyParserRegistry {
+  private parsers = new Map<string, BodyParser>();
+  private defaults: BodyParserOptions;
+
+  constructor(defaults: BodyParserOptions = {}, multipartOptions?: MultipartOptions) {
+    this.defaults = defaults;
+
+    this.register('application/json', json(defaults));
+    this.register('application/*+json', json(defaults));
+    this.register('application/x-www-form-urlencoded', urlencoded(defaults));
+    this.register('text/plain', text(defaults));
+    this.register('application/octet-stream', binary(defaults));
+    this.register('multipart/form-data', multipart(multipartOptions));
+  }
+
+  /**
+   * Registers a parser for a MIME type or wildcard pattern (`text/*`, `application/*+xml`).
+   * Registering a type again replaces its parser. Plain functions receive the buffered body.
+   */
+  public register(type: string | string[], parser: BodyParser | BufferedBodyParser['parse']): void {
+    const definition: BodyParser = typeof parser === 'function' ? { parse: parser } : parser;
+
+    for (const key of Array.isArray(type) ? type : [type]) {
+      this.parsers.set(key.toLowerCase(), definition);
+    }
+  }
+
+  public find(contentType: string): BodyParser | undefined {
+    const mimeType = getMimeType(contentType);
+    const exact = this.parsers.get(mimeType);
+    if (exact) return exact;
+
+    for (const [pattern, parser] of this.parsers) {
+      if (matchesType(mimeType, pattern)) return parser;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parses `body` into req.body using the parser registered for the request's Content-Type.
+   * Throws EfwError with 400 (malformed), 413 (too large) or 415 (unsupported type).
+   */
+  public async parse(req: EfwRequest, body: ReadableStream<Uint8Array> | null): Promise<void> {
+    const contentType = req.headers['content-type'];
+    if (!contentType) return;
+
+    const parser = this.find(contentType);
+    if (!parser) {
+      if (!body) return;
+      throw new EfwError(`Unsupported content type: ${getMimeType(contentType)}`, 415);
+    }
+
+    if ('stream' in parser) {
+      req.body = await parser.parse(body, req);
+      return;
+    }
+
+    const limit = parseSize(parser.limit ?? this.defaults.limit);
+    const contentLength = Number(req.headers['content-length']);
+    if (contentLength > limit) {
+      throw new EfwError(`Request body exceeds the ${limit} byte limit`, 413);
+    }
+
+    const bytes = await readBody(body, limit);
+    if (parser.keepRawBody ?? this.defaults.keepRawBody) {
+      req.rawBody = bytes;
+    }
+
+    req.body = await parser.parse(bytes, req);
+  }
+}
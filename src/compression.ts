@@ -0,0 +1,181 @@
+import zlib from 'zlib';
+import type { EfwRequest, EfwResponse, OnSendHook } from './types';
+import { parseSize } from './bodyParser';
+
+export type Encoding = 'br' | 'gzip' | 'deflate';
+
+export interface CompressionOptions {
+  threshold?: number | string; // buffered bodies smaller than this are sent as is (default 1kb)
+  encodings?: Encoding[]; // server preference when the client accepts several equally
+  filter?: (contentType: string, req: EfwRequest, res: EfwResponse) => boolean; // defaults to isCompressible
+  level?: number; // zlib level for gzip/deflate (default 6)
+  brotliQuality?: number; // 0-11 (default 4; higher levels are too slow to run per response)
+}
+
+const DEFAULT_ENCODINGS: Encoding[] = ['br', 'gzip', 'deflate'];
+
+const compressionHooks = new WeakSet<OnSendHook>();
+
+const COMPRESSIBLE_TYPES = new Set([
+  'application/javascript',
+  'application/json',
+  'application/ld+json',
+  'application/manifest+json',
+  'application/xml',
+  'application/x-www-form-urlencoded',
+  'application/wasm',
+  'image/svg+xml',
+  'image/x-icon'
+]);
+
+/**
+ * Text formats compress well; images, video, archives and fonts are compressed already.
+ * Server-sent events are left alone so each event reaches the client as soon as it is written.
+ */
+export function isCompressible(contentType: string): boolean {
+  const type = contentType.split(';')[0]!.trim().toLowerCase();
+  if (!type || type === 'text/event-stream') return false;
+  return type.startsWith('text/') || type.endsWith('+json') || type.endsWith('+xml') || COMPRESSIBLE_TYPES.has(type);
+}
+
+/**
+ * Picks the encoding with the highest q-value in Accept-Encoding; ties go to the first of
+ * `encodings`. Returns undefined when none is acceptable and the body should stay as is.
+ */
+export function negotiateEncoding(header: string | undefined, encodings: Encoding[] = DEFAULT_ENCODINGS): Encoding | undefined {
+  if (!header) return undefined;
+
+  const weights = new Map<string, number>();
+  for (const part of header.split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    if (!name) continue;
+    const q = params.map(param => param.trim()).find(param => param.startsWith('q='));
+    const weight = q ? Number(q.slice(2)) : 1;
+    weights.set(name, Number.isNaN(weight) ? 0 : weight);
+  }
+
+  let best: Encoding | undefined;
+  let bestWeight = 0;
+  for (const encoding of encodings) {
+    const weight = weights.get(encoding) ?? weights.get('*') ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+function addVary(res: EfwResponse, field: string): void {
+  const vary = res.getHeader('Vary');
+  const fields = typeof vary === 'string' ? vary.split(',').map(value => value.trim().toLowerCase()) : [];
+  if (fields.includes('*') || fields.includes(field.toLowerCase())) return;
+  res.setHeader('Vary', typeof vary === 'string' && vary ? `${vary}, ${field}` : field);
+}
+
+function compressSync(body: Uint8Array, encoding: Encoding, level: number, brotliQuality: number): Uint8Array {
+  switch (encoding) {
+    case 'br':
+      return zlib.brotliCompressSync(body, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: brotliQuality } });
+    case 'gzip':
+      return zlib.gzipSync(body, { level });
+    case 'deflate':
+      return zlib.deflateSync(body, { level });
+  }
+}
+
+// Flushes after every chunk, so a streamed response arrives as it is written rather than in
+// compressor-sized batches
+function createCompressionStream(encoding: Encoding, level: number, brotliQuality: number): TransformStream<Uint8Array, Uint8Array> {
+  const compressor = encoding === 'br'
+    ? zlib.createBrotliCompress({ params: { [zlib.constants.BROTLI_PARAM_QUALITY]: brotliQuality } })
+    : encoding === 'gzip' ? zlib.createGzip({ level }) : zlib.createDeflate({ level });
+
+  // Transformer.cancel() is newer than this TypeScript lib's typings, but runtimes call it
+  const transformer: Transformer<Uint8Array, Uint8Array> & { cancel(): void } = {
+    start(controller) {
+      compressor.on('data', (chunk: Buffer) => controller.enqueue(new Uint8Array(chunk)));
+      compressor.on('error', (error) => controller.error(error));
+    },
+    transform(chunk) {
+      return new Promise((resolve) => {
+        compressor.write(chunk);
+        compressor.flush(() => resolve());
+      });
+    },
+    flush() {
+      return new Promise((resolve) => {
+        compressor.once('end', () => resolve());
+        compressor.end();
+      });
+    },
+    // The client went away mid-stream; free the zlib state instead of waiting for a flush
+    cancel() {
+      compressor.destroy();
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>(transformer);
+}
+
+/**
+ * Hooks made by compression() run after every other onSend hook, wherever they were added, so
+ * route-level hooks such as response serializers still see the uncompressed payload.
+ */
+export function isCompressionHook(hook: OnSendHook): boolean {
+  return compressionHooks.has(hook);
+}
+
+/**
+ * onSend hook that compresses response bodies the client accepts in compressed form:
+ * `app.addHook('onSend', compression())`. Buffered bodies and files below the threshold are skipped;
+ * streamed bodies are always compressed since their size isn't known up front.
+ */
+export function compression(options: CompressionOptions = {}): OnSendHook {
+  const threshold = parseSize(options.threshold, 1024);
+  const encodings = options.encodings ?? DEFAULT_ENCODINGS;
+  const filter = options.filter ?? isCompressible;
+  const level = options.level ?? zlib.constants.Z_DEFAULT_COMPRESSION;
+  const brotliQuality = options.brotliQuality ?? 4;
+
+  const hook: OnSendHook = (req: EfwRequest, res: EfwResponse, payload: any) => {
+    const buffered = typeof payload === 'string' || payload instanceof Uint8Array;
+    if (!buffered && !(payload instanceof ReadableStream) && !(payload instanceof Blob)) return undefined;
+    // A 206 body is a byte range of the uncompressed file
+    if (res.statusCode < 200 || res.statusCode === 204 || res.statusCode === 206 || res.statusCode === 304) return undefined;
+    if (res.getHeader('Content-Encoding')) return undefined;
+    if (String(res.getHeader('Cache-Control') ?? '').includes('no-transform')) return undefined;
+    if (!filter(String(res.getHeader('Content-Type') ?? ''), req, res)) return undefined;
+
+    // The body depends on Accept-Encoding even when this particular one goes out uncompressed
+    addVary(res, 'Accept-Encoding');
+
+    const body: Uint8Array | Blob | ReadableStream<Uint8Array> = typeof payload === 'string' ? Buffer.from(payload) : payload;
+    if (body instanceof Uint8Array && body.byteLength < threshold) return undefined;
+    if (body instanceof Blob && body.size < threshold) return undefined;
+
+    const encoding = negotiateEncoding(req.headers['accept-encoding'], encodings);
+    if (!encoding) return undefined;
+
+    res.setHeader('Content-Encoding', encoding);
+    res.removeHeader('Content-Length');
+    // Byte offsets would refer to the compressed stream, which differs from one response to the next
+    res.removeHeader('Accept-Ranges');
+    // A strong ETag promises identical bytes, which no longer holds across encodings
+    const etag = res.getHeader('ETag');
+    if (typeof etag === 'string' && etag.startsWith('"')) {
+      res.setHeader('ETag', `W/${etag}`);
+    }
+
+    if (body instanceof Blob) {
+      return body.stream().pipeThrough(createCompressionStream(encoding, level, brotliQuality));
+    }
+    if (body instanceof ReadableStream) {
+      return body.pipeThrough(createCompressionStream(encoding, level, brotliQuality));
+    }
+    return compressSync(body, encoding, level, brotliQuality);
+  };
+
+  compressionHooks.add(hook);
+  return hook;
+}
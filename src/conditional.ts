@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+
+export type ETagMode = boolean | 'weak' | 'strong'; // true means 'weak'
+
+export interface Validators {
+  etag?: string; // quoted, optionally W/-prefixed, e.g. 'W/"42-abc"'
+  lastModified?: Date | string | number;
+}
+
+export function generateETag(body: string | Uint8Array, weak: boolean = true): string {
+  const length = typeof body === 'string' ? Buffer.byteLength(body) : body.byteLength;
+  const hash = createHash('sha1').update(body).digest('base64').replace(/=+$/, '');
+  const tag = `"${length.toString(16)}-${hash}"`;
+  return weak ? `W/${tag}` : tag;
+}
+
+// Size and mtime are cheap to read and change whenever the file does, short of same-second edits
+export function fileETag(size: number, lastModified: number): string {
+  return `W/"${size.toString(16)}-${Math.floor(lastModified).toString(16)}"`;
+}
+
+function parseETags(header: string): string[] {
+  return header.match(/\*|(?:W\/)?"[^"]*"/g) ?? [];
+}
+
+function isWeak(tag: string): boolean {
+  return tag.startsWith('W/');
+}
+
+function opaqueTag(tag: string): string {
+  return isWeak(tag) ? tag.slice(2) : tag;
+}
+
+// If-Match needs byte-for-byte identical representations; If-None-Match accepts weak equivalence
+function strongMatch(a: string, b: string): boolean {
+  return !isWeak(a) && !isWeak(b) && a === b;
+}
+
+function weakMatch(a: string, b: string): boolean {
+  return opaqueTag(a) === opaqueTag(b);
+}
+
+// HTTP dates only have second precision
+function toSeconds(value: Date | string | number | null | undefined): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+function matchesAny(header: string, etag: string | undefined, exists: boolean, match: (a: string, b: string) => boolean): boolean {
+  const tags = parseETags(header);
+  if (tags.includes('*')) return exists;
+  return etag !== undefined && tags.some(tag => match(tag, etag));
+}
+
+/**
+ * If-Range: a range is only served when the client's partial copy is still current, otherwise
+ * the full representation is. Entity tags need a strong match; a date must equal Last-Modified.
+ */
+export function isRangeFresh(headers: Headers, validators: Validators): boolean {
+  const ifRange = headers.get('if-range')?.trim();
+  if (!ifRange) return true;
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return validators.etag !== undefined && strongMatch(ifRange, validators.etag);
+  }
+  const since = toSeconds(ifRange);
+  return since !== undefined && since === toSeconds(validators.lastModified);
+}
+
+/**
+ * Evaluates If-Match, If-Unmodified-Since, If-None-Match and If-Modified-Since against the
+ * current validators in the order RFC 9110 §13.2.2 prescribes. Returns 304 or 412 when the
+ * request should not be served normally, otherwise undefined.
+ */
+export function evaluatePreconditions(method: string, headers: Headers, validators: Validators): 304 | 412 | undefined {
+  const { etag } = validators;
+  const lastModified = toSeconds(validators.lastModified);
+  const exists = etag !== undefined || lastModified !== undefined;
+  const safe = method === 'GET' || method === 'HEAD';
+
+  const ifMatch = headers.get('if-match');
+  if (ifMatch !== null) {
+    if (!matchesAny(ifMatch, etag, exists, strongMatch)) return 412;
+  } else {
+    const since = toSeconds(headers.get('if-unmodified-since'));
+    if (since !== undefined && lastModified !== undefined && lastModified > since) return 412;
+  }
+
+  const ifNoneMatch = headers.get('if-none-match');
+  if (ifNoneMatch !== null) {
+    if (matchesAny(ifNoneMatch, etag, exists, weakMatch)) return safe ? 304 : 412;
+  } else if (safe) {
+    const since = toSeconds(headers.get('if-modified-since'));
+    if (since !== undefined && lastModified !== undefined && lastModified <= since) return 304;
+  }
+
+  return undefined;
+}
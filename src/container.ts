@@ -0,0 +1,141 @@
+export type Scope = 'singleton' | 'transient' | 'request';
+
+export class InjectionToken<T> {
+  // Phantom field so tokens for different types are not interchangeable
+  declare private readonly type?: T;
+
+  constructor(public readonly description: string) {}
+
+  toString(): string {
+    return `InjectionToken(${this.description})`;
+  }
+}
+
+// Classes are their own tokens; `{ prototype: T }` also covers classes with private constructors
+export type Token<T = any> = InjectionToken<T> | { prototype: T; name: string } | string | symbol;
+
+export type Factory<T> = (container: Container) => T;
+
+export interface ProviderOptions<T> {
+  scope?: Scope; // defaults to 'singleton'
+  // Singletons at shutdown, request instances after the response, transients with the container that resolved them
+  dispose?: (instance: T) => void | Promise<void>;
+}
+
+interface Provider<T = any> {
+  factory: Factory<T>;
+  scope: Scope;
+  dispose?: (instance: T) => void | Promise<void>;
+}
+
+function tokenName(token: Token): string {
+  if (typeof token === 'string') return token;
+  if (typeof token === 'symbol') return token.toString();
+  if (token instanceof InjectionToken) return token.toString();
+  return token.name;
+}
+
+/**
+ * Resolves services by token. The app owns the root container, and each request gets a child
+ * scope (`req.container`) that caches request-scoped instances and disposes them afterwards.
+ */
+export class Container {
+  private providers = new Map<Token, Provider>();
+  private instances = new Map<Token, any>();
+  private disposables: Array<() => void | Promise<void>> = [];
+  private resolving = new Set<Token>();
+  private parent?: Container;
+
+  constructor(parent?: Container) {
+    this.parent = parent;
+  }
+
+  /**
+   * Registers a factory for a token. Registering a token again replaces the provider and drops
+   * any cached instance, which is how tests swap in fakes.
+   */
+  public register<T>(token: Token<T>, factory: Factory<T>, options: ProviderOptions<T> = {}): this {
+    const root = this.getRoot();
+    root.providers.set(token, { factory, scope: options.scope ?? 'singleton', dispose: options.dispose });
+    root.instances.delete(token);
+    return this;
+  }
+
+  public registerValue<T>(token: Token<T>, value: T): this {
+    return this.register(token, () => value);
+  }
+
+  public has(token: Token): boolean {
+    return this.getRoot().providers.has(token);
+  }
+
+  public resolve<T = any>(token: Token<T>): T {
+    const provider = this.getRoot().providers.get(token) as Provider<T> | undefined;
+    if (!provider) {
+      throw new Error(`No provider registered for ${tokenName(token)}`);
+    }
+
+    if (provider.scope === 'transient') {
+      const instance = this.create(token, provider);
+      if (provider.dispose) {
+        this.disposables.push(() => provider.dispose!(instance));
+      }
+      return instance;
+    }
+
+    if (provider.scope === 'request' && !this.parent) {
+      throw new Error(`${tokenName(token)} is request-scoped and can only be resolved from req.container`);
+    }
+
+    // Singletons live in the root container, request instances in the request scope
+    const owner = provider.scope === 'singleton' ? this.getRoot() : this;
+    if (owner.instances.has(token)) {
+      return owner.instances.get(token);
+    }
+
+    const instance = owner.create(token, provider);
+    owner.instances.set(token, instance);
+    if (provider.dispose) {
+      owner.disposables.push(() => provider.dispose!(instance));
+    }
+    return instance;
+  }
+
+  public createScope(): Container {
+    return new Container(this.getRoot());
+  }
+
+  /**
+   * Runs dispose callbacks for the instances this container created, most recent first.
+   */
+  public async dispose(): Promise<void> {
+    const disposables = this.disposables.reverse();
+    this.disposables = [];
+    this.instances.clear();
+
+    for (const dispose of disposables) {
+      try {
+        await dispose();
+      } catch (error) {
+        console.error('Container dispose error:', error);
+      }
+    }
+  }
+
+  private create<T>(token: Token<T>, provider: Provider<T>): T {
+    if (this.resolving.has(token)) {
+      throw new Error(`Circular dependency while resolving ${tokenName(token)}`);
+    }
+
+    this.resolving.add(token);
+    try {
+      return provider.factory(this);
+    } finally {
+      this.resolving.delete(token);
+    }
+  }
+
+  private getRoot(): Container {
+    return this.parent ?? this;
+  }
+}
@@ -0,0 +1,44 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { EfwRequest } from './types';
+
+export interface RequestContext {
+  readonly requestId: string;
+  readonly req: EfwRequest;
+  readonly user: any; // reads req.user, so it reflects auth middleware that ran after the context was created
+  locale?: string; // first Accept-Language tag; handlers may override it
+  readonly store: Map<string | symbol, unknown>; // per-request values for services
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+function parseLocale(header: string | undefined): string | undefined {
+  const tag = header?.split(',')[0]?.split(';')[0]?.trim();
+  return tag && tag !== '*' ? tag : undefined;
+}
+
+export function createRequestContext(req: EfwRequest): RequestContext {
+  return {
+    requestId: req.requestId ?? '',
+    req,
+    get user() {
+      return req.user;
+    },
+    locale: parseLocale(req.headers['accept-language']),
+    store: new Map()
+  };
+}
+
+/**
+ * Runs `fn` with `context` as the current request context, including everything it awaits.
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Returns the context of the request being handled, or undefined outside of a request
+ * (startup code, timers scheduled before the request, WebSocket handlers).
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -1,11 +1,33 @@
+import type { Server } from 'bun';
+import { resolve, sep } from 'path';
 import type { 
+  CloseHook,
+  CloseOptions,
   EfwOptions, 
   EfwRequest, 
   EfwResponse, 
-  Handler, 
+  EfwWebSocket,
+  HookName,
+  InjectOptions,
+  InjectResponse,
+  LifecycleHooks,
   Middleware,
   ErrorMiddleware,
-  CookieOptions 
+  CookieOptions,
+  Route,
+  Handler,
+  RouteDefinition,
+  RouteHandlers,
+  RouteMatch,
+  RouteOptions,
+  RouteParams,
+  RouteSchema,
+  SendFileOptions,
+  UrlBuilder,
+  UrlOptions,
+  UrlParams,
+  WebSocketData,
+  WebSocketHandlers
 } from './types';
 import { Router } from './router';
 import { 
@@ -13,21 +35,176 @@ import {
   createBodyParser, 
   createQueryParser, 
   createCookieParser, 
-  createStaticMiddleware 
+  createStaticMiddleware,
+  getMimeType
 } from './middleware';
+import { SseStream, type SseOptions } from './utils/sse';
+import { removeTempFiles } from './utils/multipart';
+import { CookieHelper } from './utils/cookies';
+import { BodyParserRegistry, type BodyParser, type BufferedBodyParser } from './bodyParser';
+import { EfwError, NotFoundError, TimeoutError } from './utils/errors';
+import { createRequestValidator, createResponseSerializer } from './validation/schema';
+import { Container } from './container';
+import { createRequestContext, runWithRequestContext } from './context';
+import { evaluatePreconditions, fileETag, generateETag, isRangeFresh, type Validators } from './conditional';
+import { createByterangesBody, parseRange } from './range';
+import { isCompressionHook } from './compression';
+import { getPluginMeta, type Plugin, type PluginOptions } from './plugin';
+
+type HookStore = { [K in HookName]: LifecycleHooks[K][] };
+
+// Hooks and request decorators registered by one plugin scope; the root scope has no parent
+interface HookScope {
+  parent?: HookScope;
+  hooks: HookStore;
+  requestDecorators: Record<string, unknown>;
+}
+
+function createHookScope(parent?: HookScope): HookScope {
+  return {
+    parent,
+    hooks: { onRequest: [], preHandler: [], onSend: [], onResponse: [], onError: [] },
+    requestDecorators: {}
+  };
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function joinPaths(prefix: string, path: string): string {
+  if (!prefix) return path;
+  if (path === '' || path === '/') return prefix;
+  return prefix + (path.startsWith('/') ? path : `/${path}`);
+}
+
+function normalizePrefix(prefix: string = ''): string {
+  const trimmed = prefix.replace(/\/+$/, '');
+  return trimmed && !trimmed.startsWith('/') ? `/${trimmed}` : trimmed;
+}
+
+interface VirtualHost {
+  pattern: RegExp;
+  keys: string[];
+  router: Router;
+}
+
+// 'api.example.com', ':tenant.example.com' or '*.example.com'; each `:name` or `*` matches one label
+function compileHostPattern(host: string): { pattern: RegExp; keys: string[] } {
+  const keys: string[] = [];
+  const labels = host.split('.').map(label => {
+    if (label === '*') return '[^.]+';
+    if (label.startsWith(':')) {
+      keys.push(label.slice(1));
+      return '([^.]+)';
+    }
+    return label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  });
+  return { pattern: new RegExp(`^${labels.join('\\.')}$`, 'i'), keys };
+}
+
+// Backs req.signal; the timer is re-armed when the matched route has its own timeout
+interface RequestDeadline {
+  controller: AbortController;
+  startTime: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+interface ResponseHead {
+  status: number;
+  headers: Headers;
+}
+
+// Parts of a response only the request pipeline uses; handlers see the plain EfwResponse
+interface ResponseState {
+  getBody(): any;
+  setBody(body: any): void;
+  committed: Promise<void>; // resolves when a streamed response commits its status and headers
+  getHead(): ResponseHead; // the head as committed, for streamed responses
+  abortStream(error: unknown): void;
+}
+
+// Set-Cookie values can't be comma-joined, so they come back as a list
+function readHeader(headers: Headers, name: string): string | string[] | undefined {
+  if (name.toLowerCase() === 'set-cookie') {
+    const cookies = headers.getSetCookie();
+    return cookies.length > 0 ? cookies : undefined;
+  }
+  return headers.get(name) ?? undefined;
+}
+
+/**
+ * A view of `res` with its own copy of the head. The send pipeline works on it, so a handler
+ * still running after a timeout or a streamed commit can't change the status and headers that go out.
+ */
+function detachHead(res: EfwResponse, head: ResponseHead): EfwResponse {
+  const headers = new Headers(head.headers);
+  const view: EfwResponse = Object.create(res);
+
+  return Object.assign(view, {
+    statusCode: head.status,
+    headers,
+    status(code: number): EfwResponse {
+      view.statusCode = code;
+      return view;
+    },
+    setHeader(name: string, value: string): void {
+      headers.set(name, value);
+    },
+    appendHeader(name: string, value: string): void {
+      headers.append(name, value);
+    },
+    getHeader(name: string): string | string[] | undefined {
+      return readHeader(headers, name);
+    },
+    removeHeader(name: string): void {
+      headers.delete(name);
+    },
+    cookie(name: string, value: string, options?: CookieOptions): void {
+      headers.append('Set-Cookie', CookieHelper.serialize(name, value, options));
+    }
+  });
+}
+
+function matchHost(vhost: VirtualHost, hostname: string): Record<string, string> | null {
+  const match = vhost.pattern.exec(hostname);
+  if (!match) return null;
+  return Object.fromEntries(vhost.keys.map((key, index) => [key, match[index + 1]!]));
+}
 
 export class Efw {
+  public readonly container: Container = new Container();
   private router: Router;
+  private wsRouter: Router = new Router();
+  private virtualHosts: VirtualHost[] = [];
+  private wsHandlers: Map<Route, WebSocketHandlers> = new Map();
+  private wsConnections: WeakMap<WebSocketData, WebSocketHandlers> = new WeakMap();
   private middlewareStack: MiddlewareStack;
-  private options: EfwOptions;
+  private bodyParsers: BodyParserRegistry;
+  private config: EfwOptions;
   private server?: any;
   private templateEngine?: 'handlebars' | 'ejs';
   private templateDir: string = './views';
+  private hookScope: HookScope = createHookScope();
+  private routeScopes: WeakMap<Route, HookScope> = new WeakMap();
+  private mountedScopes: Array<{ router: Router; scope: HookScope }> = [];
+  private deadlines: WeakMap<EfwRequest, RequestDeadline> = new WeakMap();
+  private responseStates: WeakMap<EfwResponse, ResponseState> = new WeakMap();
+  // Plugin scopes are created with Object.create(), so these are overridden per scope
+  private prefix = '';
+  private decorationTarget: Efw = this;
+  private pluginQueue: Promise<void> = Promise.resolve();
+  private plugins = { names: new Set<string>(), pending: 0, failed: false };
+  private closeHooks: CloseHook[] = [];
+  private closing?: Promise<void>;
+  private signalHandlers: Array<[NodeJS.Signals, () => void]> = [];
 
   constructor(options: EfwOptions = {}) {
-    this.options = options;
+    this.config = options;
     this.router = new Router();
     this.middlewareStack = new MiddlewareStack();
+    this.bodyParsers = new BodyParserRegistry(options.bodyParser, options.multipart);
     
     this.middlewareStack.use(createQueryParser());
     this.middlewareStack.use(createCookieParser());
@@ -43,38 +220,306 @@ export class Efw {
     if (options.templateDir) {
       this.templateDir = options.templateDir;
     }
+
+    // Registered first so it runs last, after hooks that may still use services
+    this.onClose(() => this.container.dispose());
+
+    // Bound so it can be passed around as a plain fetch handler
+    this.fetch = this.fetch.bind(this) as this['fetch'];
+  }
+
+  public get<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('GET', path, handlers as RouteHandlers);
+  }
+
+  public post<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('POST', path, handlers as RouteHandlers);
+  }
+
+  public put<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('PUT', path, handlers as RouteHandlers);
+  }
+
+  public delete<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('DELETE', path, handlers as RouteHandlers);
+  }
+
+  public patch<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('PATCH', path, handlers as RouteHandlers);
+  }
+
+  public options<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('OPTIONS', path, handlers as RouteHandlers);
+  }
+
+  public head<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('HEAD', path, handlers as RouteHandlers);
+  }
+
+  /**
+   * Declares a route together with its schema. Inputs are validated (400 on failure) and typed
+   * from the schema, and JSON responses are checked against `schema.response` for their status.
+   */
+  public route<Path extends string, const S extends RouteSchema = {}>(definition: RouteDefinition<Path, S>): void {
+    const { method, path, schema, handler, ...hooks } = definition;
+    const routeHooks: RouteOptions = { ...hooks };
+
+    if (schema) {
+      routeHooks.preHandler = [createRequestValidator(schema), ...toArray(hooks.preHandler)];
+      if (schema.response) {
+        routeHooks.onSend = [...toArray(hooks.onSend), createResponseSerializer(schema.response)];
+      }
+    }
+
+    for (const routeMethod of Array.isArray(method) ? method : [method]) {
+      const route = this.addRoute(routeMethod, path, [routeHooks, handler as Handler]);
+      if (schema) {
+        route.schema = schema;
+      }
+    }
+  }
+
+  private addRoute(method: string, path: string, handlers: RouteHandlers): Route {
+    const route = this.router.addRoute(method, joinPaths(this.prefix, path), ...handlers);
+    if (this.hookScope.parent) {
+      this.routeScopes.set(route, this.hookScope);
+    }
+    return route;
+  }
+
+  /**
+   * Serves `router` for requests whose host matches `host`, e.g. 'api.example.com' or
+   * ':tenant.example.com' (captured labels land in req.hostParams). Requests for other hosts,
+   * and paths the router has no route for, fall back to the app's own routes.
+   */
+  public host(host: string, router: Router): void {
+    this.virtualHosts.push({ ...compileHostPattern(host), router });
+  }
+
+  /**
+   * Registers a WebSocket route. The HTTP middleware stack runs during the upgrade handshake,
+   * so `ws.data.req` carries the cookies, session and user it resolved.
+   */
+  public ws<T = any>(path: string, handlers: WebSocketHandlers<T>): void {
+    const route = this.wsRouter.addRoute('GET', joinPaths(this.prefix, path));
+    this.wsHandlers.set(route, handlers);
+  }
+
+  public publish(topic: string, message: string | Uint8Array | object): number {
+    if (!this.server) return 0;
+    
+    const payload = typeof message === 'string' || message instanceof Uint8Array ? message : JSON.stringify(message);
+    return this.server.publish(topic, payload);
+  }
+
+  public use(
+    pathOrMiddleware: string | Middleware | ErrorMiddleware | Router,
+    middleware?: Middleware | ErrorMiddleware | Router
+  ): void {
+    // Inside a prefixed plugin, middleware and sub-routers are mounted under the prefix
+    if (typeof pathOrMiddleware === 'string') {
+      pathOrMiddleware = joinPaths(this.prefix, pathOrMiddleware);
+    } else if (this.prefix) {
+      middleware = pathOrMiddleware;
+      pathOrMiddleware = this.prefix;
+    }
+
+    const mounted = pathOrMiddleware instanceof Router ? pathOrMiddleware : middleware instanceof Router ? middleware : undefined;
+    if (mounted && this.hookScope.parent) {
+      this.mountedScopes.push({ router: mounted, scope: this.hookScope });
+    }
+
+    if (pathOrMiddleware instanceof Router) {
+      this.router.use(pathOrMiddleware);
+    } else if (middleware instanceof Router) {
+      this.router.use(pathOrMiddleware as string, middleware);
+    } else {
+      this.middlewareStack.use(pathOrMiddleware, middleware);
+    }
+  }
+
+  /**
+   * Registers a plugin. Plugins load one at a time, in registration order, before the server
+   * starts listening. Each gets its own scope: routes, hooks and decorators it adds stay inside
+   * it unless the plugin was defined with `encapsulate: false`.
+   */
+  public register<O extends PluginOptions>(plugin: Plugin<O>, options: O = {} as O): this {
+    this.plugins.pending++;
+    this.pluginQueue = this.pluginQueue
+      .then(() => this.loadPlugin(plugin, options))
+      .finally(() => {
+        this.plugins.pending--;
+      });
+    // ready() and fetch() report the failure; this only keeps it from going unhandled
+    this.pluginQueue.catch(() => {
+      this.plugins.failed = true;
+    });
+    return this;
+  }
+
+  /**
+   * Resolves once every registered plugin, including plugins they register, has loaded.
+   */
+  public async ready(): Promise<void> {
+    let queue: Promise<void>;
+    do {
+      queue = this.pluginQueue;
+      await queue;
+    } while (queue !== this.pluginQueue);
+  }
+
+  private async loadPlugin<O extends PluginOptions>(plugin: Plugin<O>, options: O): Promise<void> {
+    const meta = getPluginMeta(plugin);
+    const name = meta.name ?? (plugin.name || 'anonymous');
+
+    for (const dependency of meta.dependencies ?? []) {
+      if (!this.plugins.names.has(dependency)) {
+        throw new Error(`Plugin "${name}" depends on "${dependency}", which has not been registered`);
+      }
+    }
+
+    const scope: Efw = Object.create(this);
+    scope.prefix = joinPaths(this.prefix, normalizePrefix(options.prefix));
+    scope.pluginQueue = Promise.resolve();
+
+    if (meta.encapsulate !== false) {
+      scope.hookScope = createHookScope(this.hookScope);
+      scope.decorationTarget = scope;
+    }
+
+    await plugin(scope, options);
+    await scope.ready();
+
+    if (meta.name) {
+      this.plugins.names.add(meta.name);
+    }
+  }
+
+  /**
+   * Adds a property to this scope (and the plugins it registers), e.g. a shared database handle.
+   */
+  public decorate(name: string, value: unknown): void {
+    if (this.hasDecorator(name)) {
+      throw new Error(`Decorator "${name}" has already been added`);
+    }
+    Object.defineProperty(this.decorationTarget, name, { value, writable: true, enumerable: true, configurable: true });
+  }
+
+  public hasDecorator(name: string): boolean {
+    return name in this;
+  }
+
+  /**
+   * Sets a property on every request handled by a route of this scope.
+   */
+  public decorateRequest(name: string, value: unknown): void {
+    if (name in this.hookScope.requestDecorators) {
+      throw new Error(`Request decorator "${name}" has already been added`);
+    }
+    this.hookScope.requestDecorators[name] = value;
+  }
+
+  /**
+   * Registers an app-level lifecycle hook. Route-level hooks are passed as an object before the
+   * handlers (`app.get(path, { preHandler }, handler)`) and run after the app-level ones.
+   */
+  public addHook<K extends HookName>(name: K, hook: LifecycleHooks[K]): void {
+    this.hookScope.hooks[name].push(hook);
   }
 
-  public get(path: string, ...handlers: Handler[]): void {
-    this.router.get(path, ...handlers);
+  // Collects hooks from the route's plugin scope up to (but not including) `stopAt`
+  private getScopeHooks<K extends HookName>(name: K, scope: HookScope | undefined, stopAt?: HookScope): LifecycleHooks[K][] {
+    const hooks: LifecycleHooks[K][] = [];
+    for (let current = scope; current && current !== stopAt; current = current.parent) {
+      hooks.unshift(...current.hooks[name]);
+    }
+    return hooks;
   }
 
-  public post(path: string, ...handlers: Handler[]): void {
-    this.router.post(path, ...handlers);
+  /**
+   * The plugin scope a route was added in. Routes of routers mounted inside a plugin can be added
+   * after mounting, so they are looked up on first match and cached like the plugin's own routes.
+   */
+  private getRouteScope(route: Route): HookScope | undefined {
+    let scope = this.routeScopes.get(route);
+    if (!scope) {
+      scope = this.mountedScopes.find(mounted => mounted.router.hasRoute(route))?.scope;
+      if (scope) {
+        this.routeScopes.set(route, scope);
+      }
+    }
+    return scope;
   }
 
-  public put(path: string, ...handlers: Handler[]): void {
-    this.router.put(path, ...handlers);
+  private getHooks<K extends HookName>(name: K, route?: Route): LifecycleHooks[K][] {
+    const scope = (route && this.getRouteScope(route)) ?? this.hookScope;
+    const hooks = this.getScopeHooks(name, scope);
+
+    const routeHooks = name === 'onRequest' ? undefined : route?.hooks?.[name as Exclude<HookName, 'onRequest'>];
+    if (!routeHooks) return hooks;
+
+    return [...hooks, ...(Array.isArray(routeHooks) ? routeHooks : [routeHooks])] as LifecycleHooks[K][];
   }
 
-  public delete(path: string, ...handlers: Handler[]): void {
-    this.router.delete(path, ...handlers);
+  private async runRequestHooks(name: 'onRequest' | 'preHandler', req: EfwRequest, res: EfwResponse): Promise<void> {
+    const hooks = name === 'onRequest' ? this.hookScope.hooks.onRequest : this.getHooks(name, req.route);
+
+    for (const hook of hooks) {
+      await hook(req, res);
+      // A hook that sends a response ends the request
+      if (res.isSent()) return;
+    }
   }
 
-  public patch(path: string, ...handlers: Handler[]): void {
-    this.router.patch(path, ...handlers);
+  /**
+   * Runs the onSend hooks on a detached copy of the head (the committed one for streamed
+   * responses) and returns that copy, which the rest of the send pipeline builds the Response from.
+   */
+  private async runSendHooks(req: EfwRequest, res: EfwResponse): Promise<EfwResponse> {
+    const state = this.responseStates.get(res)!;
+    const sent = detachHead(res, state.getHead());
+    this.responseStates.set(sent, state);
+    let payload = state.getBody();
+
+    // Compression is the last stage, so earlier hooks never receive an already compressed body
+    const hooks = this.getHooks('onSend', req.route);
+    const ordered = [...hooks.filter(hook => !isCompressionHook(hook)), ...hooks.filter(isCompressionHook)];
+
+    for (const hook of ordered) {
+      try {
+        const result = await hook(req, sent, payload);
+        if (result !== undefined) {
+          payload = result;
+        }
+      } catch (error) {
+        console.error('onSend hook error:', error);
+      }
+    }
+
+    state.setBody(payload);
+    return sent;
   }
 
-  public options(path: string, ...handlers: Handler[]): void {
-    this.router.options(path, ...handlers);
+  private runResponseHooks(req: EfwRequest, res: EfwResponse, responseTime: number): void {
+    for (const hook of this.getHooks('onResponse', req.route)) {
+      Promise.resolve()
+        .then(() => hook(req, res, responseTime))
+        .catch((error) => console.error('onResponse hook error:', error));
+    }
   }
 
-  public head(path: string, ...handlers: Handler[]): void {
-    this.router.head(path, ...handlers);
+  private async runErrorHooks(error: Error, req: EfwRequest, res: EfwResponse): Promise<void> {
+    for (const hook of this.getHooks('onError', req.route)) {
+      try {
+        await hook(error, req, res);
+      } catch (hookError) {
+        console.error('onError hook error:', hookError);
+      }
+    }
   }
 
-  public use(pathOrMiddleware: string | Middleware | ErrorMiddleware, middleware?: Middleware | ErrorMiddleware): void {
-    this.middlewareStack.use(pathOrMiddleware, middleware);
+  public bodyParser(type: string | string[], parser: BodyParser | BufferedBodyParser['parse']): void {
+    this.bodyParsers.register(type, parser);
   }
 
   public setTemplateEngine(engine: 'handlebars' | 'ejs', options?: { viewsDir?: string }): void {
@@ -86,11 +531,21 @@ export class Efw {
 
   private createRequest(request: Request): EfwRequest {
     const url = new URL(request.url);
+    // X-Forwarded-Host is client-controlled, so it is only honoured behind a trusted proxy
+    const forwardedHost = this.config.trustProxy ? request.headers.get('x-forwarded-host')?.split(',')[0]?.trim() : undefined;
+    const hostname = (forwardedHost || request.headers.get('host') || url.host).replace(/:\d+$/, '').toLowerCase();
+    const hostParams = this.virtualHosts.map(vhost => matchHost(vhost, hostname)).find(Boolean) ?? {};
+    const controller = new AbortController();
     
-    return {
+    const req: EfwRequest = {
+      ...this.hookScope.requestDecorators,
       method: request.method,
       url: request.url,
       path: url.pathname,
+      hostname,
+      hostParams,
+      originalUrl: url.pathname + url.search,
+      baseUrl: '',
       query: {},
       params: {},
       headers: Object.fromEntries(request.headers.entries()),
@@ -98,16 +553,87 @@ export class Efw {
       cookies: {},
       session: undefined,
       user: undefined,
-      requestId: Math.random().toString(36).substr(2, 9)
+      requestId: Math.random().toString(36).substr(2, 9),
+      container: this.container.createScope(),
+      signal: AbortSignal.any([request.signal, controller.signal])
     };
+    this.deadlines.set(req, { controller, startTime: performance.now() });
+
+    return req;
+  }
+
+  /**
+   * (Re)starts the request's timeout, counted from when the request arrived. When it fires,
+   * req.signal aborts with a TimeoutError. A timeout of 0 or undefined disables it.
+   */
+  private armTimeout(req: EfwRequest, timeout: number | undefined): void {
+    const deadline = this.deadlines.get(req);
+    if (!deadline || deadline.controller.signal.aborted) return;
+
+    clearTimeout(deadline.timer);
+    deadline.timer = undefined;
+    if (!timeout) return;
+
+    const remaining = Math.max(0, timeout - (performance.now() - deadline.startTime));
+    deadline.timer = setTimeout(() => deadline.controller.abort(new TimeoutError(undefined, timeout)), remaining);
   }
 
-  private createResponse(): EfwResponse {
+  private createResponse(request: Request): EfwResponse {
+    const url: UrlBuilder = (name, params, options) => this.url(name, params, options);
     let statusCode = 200;
-    const headers: Record<string, string> = {};
+    const headers = new Headers();
     let responseBody: any;
     let isResponseSent = false;
 
+    // Streaming state: the body becomes a ReadableStream once the first chunk is written
+    const encoder = new TextEncoder();
+    let bodyStream: ReadableStream<Uint8Array> | undefined;
+    let streamController: ReadableStreamDefaultController<Uint8Array> | undefined;
+    let streamClosed = false;
+    const streamCancelled = new AbortController();
+    let pendingPulls: Array<() => void> = [];
+    let committedHead: ResponseHead | undefined;
+    let markCommitted!: () => void;
+    const committed = new Promise<void>((resolve) => {
+      markCommitted = resolve;
+    });
+
+    const flushPulls = (): void => {
+      const resolvers = pendingPulls;
+      pendingPulls = [];
+      resolvers.forEach((resolve) => resolve());
+    };
+
+    const openStream = (): void => {
+      if (bodyStream) return;
+
+      bodyStream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          streamController = controller;
+        },
+        pull() {
+          flushPulls();
+        },
+        cancel() {
+          // Client disconnected or the body was discarded
+          streamClosed = true;
+          streamCancelled.abort();
+          flushPulls();
+        }
+      });
+      responseBody = bodyStream;
+      isResponseSent = true;
+      committedHead = { status: response.statusCode, headers: new Headers(headers) };
+      markCommitted();
+    };
+
+    const drained = (): Promise<void> => {
+      if (streamClosed || (streamController?.desiredSize ?? 1) > 0) {
+        return Promise.resolve();
+      }
+      return new Promise((resolve) => pendingPulls.push(resolve));
+    };
+
     const response: EfwResponse = {
       statusCode,
       headers,
@@ -116,21 +642,21 @@ export class Efw {
       
       json(data: any): void {
         if (isResponseSent) return;
-        headers['Content-Type'] = 'application/json';
+        headers.set('Content-Type', 'application/json');
         responseBody = JSON.stringify(data);
         isResponseSent = true;
       },
 
       text(data: string): void {
         if (isResponseSent) return;
-        headers['Content-Type'] = 'text/plain';
+        headers.set('Content-Type', 'text/plain');
         responseBody = data;
         isResponseSent = true;
       },
 
       html(data: string): void {
         if (isResponseSent) return;
-        headers['Content-Type'] = 'text/html';
+        headers.set('Content-Type', 'text/html');
         responseBody = data;
         isResponseSent = true;
       },
@@ -142,39 +668,30 @@ export class Efw {
       },
 
       setHeader(name: string, value: string): void {
-        headers[name] = value;
+        headers.set(name, value);
+      },
+
+      appendHeader(name: string, value: string): void {
+        headers.append(name, value);
+      },
+
+      getHeader(name: string): string | string[] | undefined {
+        return readHeader(headers, name);
+      },
+
+      removeHeader(name: string): void {
+        headers.delete(name);
       },
 
       cookie(name: string, value: string, options?: CookieOptions): void {
-        let cookieString = `${name}=${encodeURIComponent(value)}`;
-        
-        if (options?.maxAge) {
-          cookieString += `; Max-Age=${options.maxAge}`;
-        }
-        if (options?.httpOnly) {
-          cookieString += '; HttpOnly';
-        }
-        if (options?.secure) {
-          cookieString += '; Secure';
-        }
-        if (options?.sameSite) {
-          cookieString += `; SameSite=${options.sameSite}`;
-        }
-        if (options?.path) {
-          cookieString += `; Path=${options.path}`;
-        }
-        if (options?.domain) {
-          cookieString += `; Domain=${options.domain}`;
-        }
-        
-        headers['Set-Cookie'] = cookieString;
+        headers.append('Set-Cookie', CookieHelper.serialize(name, value, options));
       },
 
       redirect(url: string, code: number = 302): void {
         if (isResponseSent) return;
         statusCode = code;
         response.statusCode = code;
-        headers['Location'] = url;
+        headers.set('Location', url);
         responseBody = '';
         isResponseSent = true;
       },
@@ -191,11 +708,12 @@ export class Efw {
             const templateFile = Bun.file(templatePath);
             const templateSource = await templateFile.text();
             const compiledTemplate = Handlebars.compile(templateSource);
-            rendered = compiledTemplate(data);
+            const { createUrlHelper } = await import('./templates/handlebars');
+            rendered = compiledTemplate(data, { helpers: { url: createUrlHelper(url) } });
           } else if (response.templateEngine === 'ejs') {
             const ejs = await import('ejs');
             const templatePath = `${response.templateDir}/${template}.ejs`;
-            rendered = await ejs.renderFile(templatePath, data);
+            rendered = await ejs.renderFile(templatePath, { url, ...data });
           } else {
             throw new Error('No template engine configured');
           }
@@ -211,92 +729,668 @@ export class Efw {
         
         if (typeof data === 'string') {
           response.text(data);
-        } else if (typeof data === 'object') {
-          response.json(data);
         } else if (data instanceof Uint8Array) {
           responseBody = data;
           isResponseSent = true;
+        } else if (typeof data === 'object') {
+          response.json(data);
         } else {
           response.text(String(data));
         }
       },
 
+      async sendFile(path: string, options: SendFileOptions = {}): Promise<void> {
+        if (isResponseSent) return;
+
+        let filePath = path;
+        if (options.root) {
+          const root = resolve(options.root);
+          filePath = resolve(root, path.replace(/^\/+/, ''));
+          if (filePath !== root && !filePath.startsWith(root + sep)) {
+            throw new NotFoundError();
+          }
+        }
+
+        const file = Bun.file(filePath);
+        if (!(await file.exists())) {
+          throw new NotFoundError();
+        }
+
+        for (const [name, value] of Object.entries(options.headers ?? {})) {
+          headers.set(name, value);
+        }
+        if (!headers.has('Content-Type')) {
+          headers.set('Content-Type', getMimeType(filePath));
+        }
+
+        const validators = { etag: fileETag(file.size, file.lastModified), lastModified: file.lastModified };
+        if (!response.checkPreconditions(validators)) return;
+
+        // Bodies are Bun.file slices, so only the requested bytes are read, as they are sent
+        let body: Blob | ReadableStream<Uint8Array> = file;
+        const range = request.headers.get('range');
+        if (options.acceptRanges !== false) {
+          headers.set('Accept-Ranges', 'bytes');
+          const ranges = range && (request.method === 'GET' || request.method === 'HEAD') && isRangeFresh(request.headers, validators)
+            ? parseRange(range, file.size)
+            : undefined;
+
+          if (ranges?.length === 0) {
+            response.status(416);
+            headers.set('Content-Range', `bytes */${file.size}`);
+            headers.delete('Content-Type');
+            body = new Blob([]);
+          } else if (ranges?.length === 1) {
+            const { start, end } = ranges[0]!;
+            response.status(206);
+            headers.set('Content-Range', `bytes ${start}-${end}/${file.size}`);
+            body = file.slice(start, end + 1);
+          } else if (ranges) {
+            const boundary = `efw-${crypto.randomUUID()}`;
+            body = createByterangesBody(file, ranges, headers.get('Content-Type')!, boundary);
+            response.status(206);
+            headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+          }
+        }
+
+        if (body instanceof Blob) {
+          headers.set('Content-Length', String(body.size));
+        }
+        responseBody = body;
+        isResponseSent = true;
+      },
+
+      write(chunk: string | Uint8Array): boolean {
+        if (isResponseSent && !bodyStream) return false;
+        
+        openStream();
+        if (streamClosed) return false;
+        
+        streamController!.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+        return (streamController!.desiredSize ?? 0) > 0;
+      },
+
+      end(chunk?: string | Uint8Array): void {
+        if (!bodyStream) {
+          if (isResponseSent) return;
+          responseBody = chunk ?? '';
+          isResponseSent = true;
+          return;
+        }
+        
+        if (chunk !== undefined) {
+          response.write(chunk);
+        }
+        if (!streamClosed) {
+          streamClosed = true;
+          streamController!.close();
+        }
+      },
+
+      async stream(source: ReadableStream<string | Uint8Array> | AsyncIterable<string | Uint8Array>): Promise<void> {
+        if (isResponseSent) return;
+        
+        try {
+          for await (const chunk of source as AsyncIterable<string | Uint8Array>) {
+            if (streamClosed) break;
+            if (!response.write(chunk)) {
+              await drained();
+            }
+          }
+          response.end();
+        } catch (error) {
+          if (bodyStream && !streamClosed) {
+            streamClosed = true;
+            streamController!.error(error);
+          }
+          throw error;
+        }
+      },
+
+      sse(options?: SseOptions): SseStream {
+        const lastEventId = request.headers.get('last-event-id') ?? undefined;
+        const signal = AbortSignal.any([request.signal, streamCancelled.signal]);
+        return new SseStream(response, signal, lastEventId, options);
+      },
+
+      checkPreconditions(validators: Validators): boolean {
+        if (validators.etag !== undefined) {
+          headers.set('ETag', validators.etag);
+        }
+        if (validators.lastModified !== undefined) {
+          headers.set('Last-Modified', new Date(validators.lastModified).toUTCString());
+        }
+        if (isResponseSent) return false;
+
+        const status = evaluatePreconditions(request.method, request.headers, validators);
+        if (status === 304) {
+          response.status(304).end();
+        } else if (status === 412) {
+          response.status(412).json({ error: 'Precondition Failed' });
+        }
+        return status === undefined;
+      },
+
+      get headersSent(): boolean {
+        return bodyStream !== undefined;
+      },
+
       isSent(): boolean {
         return isResponseSent;
       }
     };
 
-    (response as any).templateEngine = this.templateEngine;
-    (response as any).templateDir = this.templateDir;
-    (response as any).getBody = () => responseBody;
+    this.responseStates.set(response, {
+      getBody: () => responseBody,
+      setBody: (body: any) => {
+        responseBody = body;
+      },
+      committed,
+      // Head changes made after a stream committed never reach the client
+      getHead: () => committedHead ?? { status: response.statusCode, headers: response.headers },
+      abortStream: (error: unknown) => {
+        if (bodyStream && !streamClosed) {
+          streamClosed = true;
+          streamController!.error(error);
+        }
+      }
+    });
 
     return response;
   }
 
   private async handleRequest(request: Request): Promise<Response> {
     const req = this.createRequest(request);
-    const res = this.createResponse();
+    const res = this.createResponse(request);
+
+    // Everything the request awaits, including streamed bodies and onResponse hooks, sees this context
+    return runWithRequestContext(createRequestContext(req), () => this.respond(request, req, res));
+  }
+
+  private async respond(request: Request, req: EfwRequest, res: EfwResponse): Promise<Response> {
+    // Keep-alive connections can still deliver requests after close() stops the listener
+    if (this.closing) {
+      res.setHeader('Connection', 'close');
+      res.status(503).json({ error: 'Service Unavailable' });
+      return this.buildResponse(req, res);
+    }
+
+    const startTime = performance.now();
+    const deadline = this.deadlines.get(req)!;
+    const timedOut = new Promise<void>(resolve => {
+      deadline.controller.signal.addEventListener('abort', () => resolve(), { once: true });
+    });
+    this.armTimeout(req, this.config.timeout);
+
+    // Streaming responses are returned as soon as the first chunk commits status and headers;
+    // the rest of the pipeline keeps running while the body is consumed.
+    const processing = this.processRequest(request, req, res).finally(() => req.container.dispose());
+    await Promise.race([processing, this.responseStates.get(res)!.committed, timedOut]);
+    clearTimeout(deadline.timer);
+
+    // The handler keeps running until it notices req.signal; its late writes are ignored
+    if (deadline.controller.signal.aborted && !res.isSent()) {
+      await this.handleError(deadline.controller.signal.reason, req, res);
+    }
+
+    const sent = await this.runSendHooks(req, res);
+    this.applyConditionalGet(request, sent);
+    const response = this.buildResponse(req, sent);
+    this.runResponseHooks(req, sent, performance.now() - startTime);
+
+    return response;
+  }
+
+  private async processRequest(request: Request, req: EfwRequest, res: EfwResponse): Promise<void> {
+    let tempFiles: string[] = [];
 
     try {
+      await this.runRequestHooks('onRequest', req, res);
+      if (res.isSent()) return;
+
       // Parse body first if it's a POST/PUT/PATCH request
       if (req.method === 'POST' || req.method === 'PUT' || req.method === 'PATCH') {
-        try {
-          const contentType = req.headers['content-type'] || '';
-          if (contentType.includes('application/json')) {
-            const bodyText = await request.text();
-            req.body = bodyText ? JSON.parse(bodyText) : {};
-          } else if (contentType.includes('application/x-www-form-urlencoded')) {
-            const bodyText = await request.text();
-            req.body = Object.fromEntries(new URLSearchParams(bodyText));
-          }
-        } catch (e) {
-          req.body = {};
-        }
+        await this.bodyParsers.parse(req, request.body);
+        // Remembered now, so a handler that moves a file and updates file.path keeps it
+        tempFiles = Object.values(req.files ?? {}).flat().flatMap(file => (file.path ? [file.path] : []));
       }
 
       await this.middlewareStack.execute(req, res);
+      if (res.isSent()) return;
       
-      const routeMatch = this.router.findRoute(req.method, req.path);
+      const routeMatch = this.findRoute(req);
       
       if (routeMatch) {
         req.params = routeMatch.params;
-        await this.router.executeHandlers(routeMatch.route.handlers, req, res);
+        req.baseUrl = routeMatch.baseUrl;
+        req.route = routeMatch.route;
+        if (routeMatch.route.timeout !== undefined) {
+          this.armTimeout(req, routeMatch.route.timeout);
+        }
+
+        // Plugin-scoped onRequest hooks and request decorators apply once the route is known
+        const scope = this.getRouteScope(routeMatch.route);
+        if (scope) {
+          for (let current: HookScope | undefined = scope; current?.parent; current = current.parent) {
+            Object.assign(req, current.requestDecorators);
+          }
+          for (const hook of this.getScopeHooks('onRequest', scope, this.hookScope)) {
+            await hook(req, res);
+            if (res.isSent()) return;
+          }
+        }
+
+        await this.runRequestHooks('preHandler', req, res);
+        if (!res.isSent()) {
+          await this.router.executeHandlers(routeMatch.handlers, req, res);
+        }
       } else if (!res.isSent()) {
-        res.status(404).json({ error: 'Not Found' });
+        const allowedMethods = this.getRouters(req)
+          .map(router => router.getAllowedMethods(req.path))
+          .find(methods => methods.length > 0) ?? [];
+        
+        if (allowedMethods.length === 0) {
+          res.status(404).json({ error: 'Not Found' });
+        } else if (req.method === 'OPTIONS') {
+          res.setHeader('Allow', allowedMethods.join(', '));
+          res.status(204).send('');
+        } else {
+          res.setHeader('Allow', allowedMethods.join(', '));
+          res.status(405).json({ error: 'Method Not Allowed' });
+        }
       }
     } catch (error) {
+      // Already answered with the timeout error; this is the handler giving up on req.signal
+      if (req.signal.aborted && res.isSent()) return;
+      await this.handleError(error as Error, req, res);
+    } finally {
+      if (tempFiles.length > 0) {
+        await removeTempFiles(tempFiles);
+      }
+    }
+  }
+
+  /**
+   * Single error path for everything thrown or rejected while handling a request: onError hooks,
+   * then the error middleware chain, then the default response, which uses EfwError.statusCode.
+   */
+  private async handleError(error: Error, req: EfwRequest, res: EfwResponse): Promise<void> {
+    await this.runErrorHooks(error, req, res);
+
+    // Once a stream has started, the only thing left to do is abort it
+    if (res.headersSent) {
       console.error('Request handling error:', error);
-      if (!res.isSent()) {
-        res.status(500).json({ 
-          error: 'Internal Server Error',
-          message: error instanceof Error ? error.message : 'Unknown error'
-        });
+      this.responseStates.get(res)!.abortStream(error);
+      return;
+    }
+    // The handler already responded, so this error would otherwise go unnoticed
+    if (res.isSent()) {
+      console.error('Request handling error:', error);
+      return;
+    }
+
+    let unhandled: Error | undefined = error;
+    try {
+      unhandled = await this.middlewareStack.handleError(error, req, res);
+    } catch (middlewareError) {
+      unhandled = middlewareError as Error;
+    }
+    if (res.isSent()) return;
+
+    const failure = unhandled ?? error;
+    if (failure instanceof EfwError && failure.statusCode !== 500) {
+      if (failure.statusCode >= 500) {
+        console.error('Request handling error:', failure);
       }
+      res.status(failure.statusCode).json({ error: failure.message });
+      return;
     }
 
-    return new Response((res as any).getBody(), {
-      status: res.statusCode,
-      headers: res.headers
+    console.error('Request handling error:', failure);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: failure instanceof Error ? failure.message : 'Unknown error'
     });
   }
 
+  /**
+   * Adds the configured ETag to buffered 2xx GET/HEAD responses and turns them into a 304 or 412
+   * when the request's conditional headers say so. Writes are checked up front by handlers
+   * calling res.checkPreconditions(), since by now the change has already been made.
+   */
+  private applyConditionalGet(request: Request, res: EfwResponse): void {
+    if (request.method !== 'GET' && request.method !== 'HEAD') return;
+    if (res.statusCode < 200 || res.statusCode >= 300 || res.headersSent) return;
+
+    const state = this.responseStates.get(res)!;
+    const body = state.getBody();
+    if (typeof body !== 'string' && !(body instanceof Uint8Array)) return;
+
+    const { etag: mode } = this.config;
+    if (mode && !res.headers.has('ETag')) {
+      res.setHeader('ETag', generateETag(body, mode !== 'strong'));
+    }
+
+    const etag = res.headers.get('ETag') ?? undefined;
+    const lastModified = res.headers.get('Last-Modified') ?? undefined;
+    if (etag === undefined && lastModified === undefined) return;
+
+    const status = evaluatePreconditions(request.method, request.headers, { etag, lastModified });
+    if (status === 304) {
+      res.status(304);
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Length');
+      state.setBody(null);
+    } else if (status === 412) {
+      res.status(412);
+      res.setHeader('Content-Type', 'application/json');
+      state.setBody(JSON.stringify({ error: 'Precondition Failed' }));
+    }
+  }
+
+  // Virtual hosts matching the request come first, the app's own router last
+  private getRouters(req: EfwRequest): Router[] {
+    const hosts = this.virtualHosts.filter(vhost => matchHost(vhost, req.hostname) !== null);
+    return [...hosts.map(vhost => vhost.router), this.router];
+  }
+
+  private findRoute(req: EfwRequest): RouteMatch | null {
+    for (const vhost of this.virtualHosts) {
+      const hostParams = matchHost(vhost, req.hostname);
+      const match = hostParams && this.matchRouter(vhost.router, req);
+      if (match) {
+        // Several host patterns can match; the params come from the one whose router has the route
+        req.hostParams = hostParams;
+        return match;
+      }
+    }
+    return this.matchRouter(this.router, req);
+  }
+
+  private matchRouter(router: Router, req: EfwRequest): RouteMatch | null {
+    // HEAD falls back to the GET route; the body is dropped when the response is built
+    return router.findRoute(req.method, req.path) ??
+      (req.method === 'HEAD' ? router.findRoute('GET', req.path) : null);
+  }
+
+  private buildResponse(req: EfwRequest, res: EfwResponse): Response {
+    const body = this.responseStates.get(res)!.getBody();
+    const { statusCode: status, headers } = res;
+
+    if (req.method === 'HEAD') {
+      if (body instanceof ReadableStream) {
+        body.cancel();
+      } else if (typeof body === 'string' || body instanceof Uint8Array) {
+        headers.set('Content-Length', String(typeof body === 'string' ? Buffer.byteLength(body) : body.byteLength));
+      } else if (body instanceof Blob) {
+        headers.set('Content-Length', String(body.size));
+      }
+
+      return new Response(null, {
+        status,
+        headers
+      });
+    }
+
+    return new Response(body, {
+      status,
+      headers
+    });
+  }
+
+  private async handleUpgrade(request: Request, server: Server): Promise<Response | undefined> {
+    const url = new URL(request.url);
+    const routeMatch = this.wsRouter.findRoute('GET', url.pathname);
+    
+    if (!routeMatch) {
+      return this.handleRequest(request);
+    }
+    
+    const handlers = this.wsHandlers.get(routeMatch.route)!;
+    const req = this.createRequest(request);
+    const res = this.createResponse(request);
+    
+    try {
+      await this.middlewareStack.execute(req, res);
+      
+      if (!res.isSent()) {
+        req.params = routeMatch.params;
+        const state = handlers.upgrade ? await handlers.upgrade(req, res) : undefined;
+        
+        if (!res.isSent()) {
+          const data: WebSocketData = { req, params: routeMatch.params, state: state ?? {} };
+          this.wsConnections.set(data, handlers);
+          
+          // The request scope lives as long as the connection and is disposed on close
+          if (server.upgrade(request, { headers: res.headers, data })) {
+            return undefined;
+          }
+          
+          res.status(400).json({ error: 'WebSocket upgrade failed' });
+        }
+      }
+    } catch (error) {
+      await this.handleError(error as Error, req, res);
+    }
+    
+    req.container.dispose();
+    return this.buildResponse(req, res);
+  }
+
+  private dispatchWebSocket(ws: EfwWebSocket, event: 'open' | 'message' | 'close' | 'drain', ...args: any[]): void {
+    const handler = this.wsConnections.get(ws.data)?.[event] as ((...params: any[]) => void | Promise<void>) | undefined;
+    let result: void | Promise<void> = undefined;
+    
+    try {
+      result = handler?.(ws, ...args);
+      if (result instanceof Promise) {
+        result = result.catch((error) => console.error(`WebSocket ${event} handler error:`, error));
+      }
+    } catch (error) {
+      console.error(`WebSocket ${event} handler error:`, error);
+    }
+
+    if (event === 'close') {
+      Promise.resolve(result).then(() => ws.data.req.container.dispose());
+    }
+  }
+
+
   public listen(port: number = 3000, callback?: () => void): any {
-    this.server = Bun.serve({
+    this.server = Bun.serve<WebSocketData, {}>({
       port,
-      hostname: this.options.host || 'localhost',
-      fetch: (request) => this.handleRequest(request),
+      hostname: this.config.host || 'localhost',
+      fetch: (request, server) => this.fetch(request, server),
+      websocket: {
+        open: (ws) => this.dispatchWebSocket(ws, 'open'),
+        message: (ws, message) => this.dispatchWebSocket(ws, 'message', message),
+        close: (ws, code, reason) => this.dispatchWebSocket(ws, 'close', code, reason),
+        drain: (ws) => this.dispatchWebSocket(ws, 'drain')
+      }
     });
 
-    if (callback) {
+    if (this.config.shutdown?.signals) {
+      this.installSignalHandlers(this.config.shutdown.signals);
+    }
+
+    if (this.plugins.pending > 0 || this.plugins.failed) {
+      // A partially loaded app is never served: the listener closes if a plugin fails
+      this.ready().then(callback, (error) => {
+        console.error('Plugin loading failed:', error);
+        return this.close();
+      });
+    } else if (callback) {
       callback();
     }
 
     return this.server;
   }
 
-  public close(): void {
+  public getRoutes(): Route[] {
+    return this.router.getRoutes();
+  }
+
+  /**
+   * Builds the path of a named route: `app.url('user.show', { id: 5 }, { query: { tab: 'posts' } })`.
+   * Also available as the `url` helper in templates rendered with res.render().
+   */
+  public url(name: string, params?: UrlParams, options?: UrlOptions): string {
+    const router = [this.router, ...this.virtualHosts.map(vhost => vhost.router)]
+      .find(candidate => candidate.hasName(name));
+    return (router ?? this.router).url(name, params, options);
+  }
+
+  /**
+   * Handles a Fetch API request, so the app can be mounted in another server with
+   * `Bun.serve({ fetch: app.fetch })`. WebSocket upgrades need the `server` argument.
+   */
+  public fetch(request: Request): Promise<Response>;
+  public fetch(request: Request, server: Server): Promise<Response | undefined>;
+  public async fetch(request: Request, server?: Server): Promise<Response | undefined> {
+    // Requests that arrive while plugins are still loading wait for them
+    if (this.plugins.pending > 0 || this.plugins.failed) {
+      try {
+        await this.ready();
+      } catch {
+        return Response.json({ error: 'Service Unavailable' }, { status: 503 });
+      }
+    }
+
+    if (server && request.headers.get('upgrade')?.toLowerCase() === 'websocket') {
+      return this.handleUpgrade(request, server);
+    }
+    return this.handleRequest(request);
+  }
+
+  /**
+   * Runs a request through the full pipeline without opening a port and returns the
+   * buffered result. Intended for tests.
+   */
+  public async inject(options: InjectOptions): Promise<InjectResponse> {
+    const url = new URL(options.url, `http://${this.config.host || 'localhost'}`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      url.searchParams.append(key, value);
+    }
+
+    const headers = new Headers(options.headers);
+    if (options.cookies) {
+      const cookies = Object.entries(options.cookies).map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`);
+      headers.set('Cookie', [headers.get('cookie'), ...cookies].filter(Boolean).join('; '));
+    }
+
+    let body = options.body;
+    const isRawBody = typeof body === 'string' || body instanceof Uint8Array || body instanceof ArrayBuffer ||
+      body instanceof Blob || body instanceof FormData || body instanceof URLSearchParams || body instanceof ReadableStream;
+    if (body !== undefined && body !== null && !isRawBody) {
+      body = JSON.stringify(body);
+      if (!headers.has('content-type')) {
+        headers.set('Content-Type', 'application/json');
+      }
+    }
+
+    const response = await this.fetch(new Request(url.href, { method: options.method ?? 'GET', headers, body }));
+    const text = await response.text();
+
+    let parsedBody: any = text;
+    if (text && response.headers.get('content-type')?.includes('json')) {
+      try {
+        parsedBody = JSON.parse(text);
+      } catch {
+        // Leave malformed JSON as text so the test can assert on it
+      }
+    }
+
+    // Headers.entries() would keep only one of several Set-Cookie headers, so they are listed apart
+    const setCookies = response.headers.getSetCookie();
+    const responseHeaders = Object.fromEntries([...response.headers.entries()].filter(([name]) => name !== 'set-cookie'));
+
+    const cookies: Record<string, string> = {};
+    for (const cookie of setCookies) {
+      const pair = cookie.split(';')[0]!;
+      const separator = pair.indexOf('=');
+      if (separator === -1) continue;
+      cookies[decodeURIComponent(pair.slice(0, separator).trim())] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+
+    return {
+      status: response.status,
+      headers: responseHeaders,
+      setCookies,
+      body: parsedBody,
+      text,
+      cookies
+    };
+  }
+
+  /**
+   * Registers a hook that runs once the server has drained during close(), for releasing
+   * database pools, logger transports and timers. Hooks run in reverse registration order.
+   */
+  public onClose(hook: CloseHook): void {
+    this.closeHooks.push(hook);
+  }
+
+  /**
+   * Stops accepting connections, waits up to `timeout` ms for in-flight requests to finish,
+   * cuts whatever is still open (streams, WebSockets, idle keep-alives), then runs the onClose hooks.
+   */
+  public close(options: CloseOptions = {}): Promise<void> {
+    if (!this.closing) {
+      this.closing = this.shutdown(options.timeout ?? this.config.shutdown?.timeout ?? 10000);
+    }
+    return this.closing;
+  }
+
+  private async shutdown(timeout: number): Promise<void> {
+    for (const [signal, handler] of this.signalHandlers) {
+      process.off(signal, handler);
+    }
+    this.signalHandlers = [];
+
     if (this.server) {
-      this.server.stop();
+      const server = this.server;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      // stop() resolves once every in-flight response has been written
+      const drained = await Promise.race([
+        Promise.resolve(server.stop()).then(() => true),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(false), timeout);
+        })
+      ]);
+      clearTimeout(timer);
+
+      if (!drained) {
+        console.warn(`Shutdown timeout: closing connections still open after ${timeout}ms`);
+        await server.stop(true);
+      }
+      this.server = undefined;
+    }
+
+    for (const hook of [...this.closeHooks].reverse()) {
+      try {
+        await hook();
+      } catch (error) {
+        console.error('onClose hook error:', error);
+      }
+    }
+  }
+
+  private installSignalHandlers(signals: boolean | NodeJS.Signals[]): void {
+    const list: NodeJS.Signals[] = signals === true ? ['SIGTERM', 'SIGINT'] : signals || [];
+
+    for (const signal of list) {
+      const handler = () => {
+        this.close().then(
+          () => process.exit(0),
+          (error) => {
+            console.error('Shutdown error:', error);
+            process.exit(1);
+          }
+        );
+      };
+      process.once(signal, handler);
+      this.signalHandlers.push([signal, handler]);
     }
   }
-}
\ No newline at end of file
+}
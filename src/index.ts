@@ -2,6 +2,34 @@
 export { Efw } from './framework';
 export { Router } from './router';
 export { MiddlewareStack } from './middleware';
+export {
+  BodyParserRegistry,
+  json,
+  urlencoded,
+  text,
+  binary,
+  raw,
+  multipart,
+  parseSize
+} from './bodyParser';
+export type {
+  BodyParser,
+  BodyParserOptions,
+  BufferedBodyParser,
+  StreamingBodyParser
+} from './bodyParser';
+export { Container, InjectionToken } from './container';
+export type { Token, Factory, Scope, ProviderOptions } from './container';
+export { getRequestContext, runWithRequestContext } from './context';
+export type { RequestContext } from './context';
+export { evaluatePreconditions, generateETag, fileETag, isRangeFresh } from './conditional';
+export type { ETagMode, Validators } from './conditional';
+export { compression, isCompressible, negotiateEncoding } from './compression';
+export type { CompressionOptions, Encoding } from './compression';
+export { parseRange } from './range';
+export type { ByteRange } from './range';
+export { definePlugin } from './plugin';
+export type { Plugin, PluginMeta, PluginOptions } from './plugin';
 
 // Types
 export * from './types';
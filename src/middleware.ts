@@ -1,4 +1,5 @@
 import type { Middleware, ErrorMiddleware, EfwRequest, EfwResponse, NextFunction } from './types';
+import { BodyParserRegistry, type BodyParserOptions } from './bodyParser';
 
 export class MiddlewareStack {
   private middlewares: Array<{ path?: string; middleware: Middleware }> = [];
@@ -20,87 +21,94 @@ export class MiddlewareStack {
     }
   }
 
+  /**
+   * Runs the middleware stack. Resolves once the chain has finished, including middleware that
+   * continue after `await next()`, and rejects with any error thrown, rejected or passed to `next(err)`.
+   */
   public async execute(req: EfwRequest, res: EfwResponse): Promise<void> {
-    let currentIndex = 0;
-    
-    const next: NextFunction = (error?: Error) => {
-      if (error) {
-        this.handleError(error, req, res);
-        return;
-      }
-      
-      currentIndex++;
-      executeNext();
-    };
-
-    const executeNext = async () => {
-      if (currentIndex >= this.middlewares.length) {
-        return;
-      }
-
-      const { path, middleware } = this.middlewares[currentIndex];
-      
-      if (path && !req.path.startsWith(path)) {
-        currentIndex++;
-        return executeNext();
-      }
-
-      try {
-        const result = middleware(req, res, next);
-        if (result instanceof Promise) {
-          await result;
-        }
-      } catch (error) {
-        this.handleError(error as Error, req, res);
-      }
-    };
-
-    await executeNext();
+    // Path checks happen as the chain reaches each middleware, since earlier ones may rewrite req.path
+    await runChain(
+      this.middlewares.map(({ path, middleware }): Middleware =>
+        path ? (req, res, next) => (req.path.startsWith(path) ? middleware(req, res, next) : next()) : middleware
+      ),
+      req,
+      res
+    );
   }
 
-  private async handleError(error: Error, req: EfwRequest, res: EfwResponse): Promise<void> {
+  /**
+   * Passes an error through the error middleware in registration order. `next(err)` hands the
+   * given (or the original) error to the next one, and errors they throw are passed on the same way.
+   * Resolves with the error that fell off the end of the chain, or undefined once a handler stops it.
+   */
+  public async handleError(error: Error, req: EfwRequest, res: EfwResponse): Promise<Error | undefined> {
+    let current = error;
+
     for (const { path, middleware } of this.errorMiddlewares) {
       if (path && !req.path.startsWith(path)) {
         continue;
       }
 
+      let forwarded: Error | undefined;
+      const next: NextFunction = (nextError?: Error) => {
+        forwarded = nextError ?? current;
+      };
+
       try {
-        const result = middleware(error, req, res, () => {});
-        if (result instanceof Promise) {
-          await result;
-        }
-        break;
-      } catch (err) {
-        console.error('Error in error middleware:', err);
+        await middleware(current, req, res, next);
+      } catch (thrown) {
+        forwarded = thrown as Error;
       }
+
+      if (!forwarded) {
+        return undefined;
+      }
+      current = forwarded;
     }
+
+    return current;
   }
 }
 
-export function createBodyParser(): Middleware {
+/**
+ * Runs middleware-style functions in order; each continues the chain by calling `next()`.
+ * The returned promise settles after the whole chain has, so errors from async functions that
+ * run after `next()` are rejected here instead of escaping as unhandled rejections.
+ */
+export async function runChain(handlers: Middleware[], req: EfwRequest, res: EfwResponse): Promise<void> {
+  const dispatch = async (index: number): Promise<void> => {
+    const handler = handlers[index];
+    if (!handler) return;
+
+    let downstream: Promise<void> | undefined;
+    const next: NextFunction = (error?: Error) => {
+      downstream ??= error ? Promise.reject(error) : dispatch(index + 1);
+      // Observed below once the handler returns; this only silences the early rejection
+      downstream.catch(() => {});
+      return downstream;
+    };
+
+    await handler(req, res, next);
+    await downstream;
+  };
+
+  await dispatch(0);
+}
+
+export function createBodyParser(options: BodyParserOptions = {}): Middleware {
+  const registry = new BodyParserRegistry(options);
+
   return async (req: EfwRequest, res: EfwResponse, next: NextFunction) => {
     if (req.method === 'POST' || req.method === 'PUT' || req.method === 'PATCH') {
-      try {
-        const contentType = req.headers['content-type'] || '';
-        
-        if (contentType.includes('application/json') && req.body) {
-          if (req.body instanceof ReadableStream) {
-            const body = await Bun.readableStreamToText(req.body);
-            req.body = body ? JSON.parse(body) : {};
-          } else if (typeof req.body === 'string') {
-            req.body = JSON.parse(req.body);
-          }
-        } else if (contentType.includes('application/x-www-form-urlencoded') && req.body) {
-          if (req.body instanceof ReadableStream) {
-            const body = await Bun.readableStreamToText(req.body);
-            req.body = Object.fromEntries(new URLSearchParams(body));
-          } else if (typeof req.body === 'string') {
-            req.body = Object.fromEntries(new URLSearchParams(req.body));
-          }
+      // Only bodies the framework has not already parsed are handled here
+      if (req.body instanceof ReadableStream || typeof req.body === 'string') {
+        const body = typeof req.body === 'string' ? new Blob([req.body]).stream() : req.body;
+
+        try {
+          await registry.parse(req, body);
+        } catch (error) {
+          return next(error as Error);
         }
-      } catch (error) {
-        console.error('Body parsing error:', error);
-        req.body = {};
       }
     } else {
       req.body = {};
@@ -140,7 +148,7 @@ export function createCookieParser(): Middleware {
 
 export function createStaticMiddleware(staticPath: string): Middleware {
   return async (req: EfwRequest, res: EfwResponse, next: NextFunction) => {
-    if (req.method !== 'GET') {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
       return next();
     }
 
@@ -149,11 +157,7 @@ export function createStaticMiddleware(staticPath: string): Middleware {
       const file = Bun.file(filePath);
       
       if (await file.exists()) {
-        const mimeType = getMimeType(filePath);
-        res.setHeader('Content-Type', mimeType);
-        
-        const arrayBuffer = await file.arrayBuffer();
-        res.send(new Uint8Array(arrayBuffer));
+        await res.sendFile(filePath);
         return;
       }
     } catch (error) {
@@ -174,7 +178,7 @@ export function createRequestIdMiddleware(): Middleware {
   };
 }
 
-function getMimeType(filePath: string): string {
+export function getMimeType(filePath: string): string {
   const ext = filePath.split('.').pop()?.toLowerCase();
   
   const mimeTypes: Record<string, string> = {
@@ -188,8 +192,20 @@ function getMimeType(filePath: string): string {
     'gif': 'image/gif',
     'svg': 'image/svg+xml',
     'ico': 'image/x-icon',
+    'webp': 'image/webp',
     'txt': 'text/plain',
-    'pdf': 'application/pdf'
+    'csv': 'text/csv',
+    'xml': 'application/xml',
+    'pdf': 'application/pdf',
+    'wasm': 'application/wasm',
+    'woff': 'font/woff',
+    'woff2': 'font/woff2',
+    'mp4': 'video/mp4',
+    'webm': 'video/webm',
+    'mov': 'video/quicktime',
+    'mp3': 'audio/mpeg',
+    'wav': 'audio/wav',
+    'ogg': 'audio/ogg'
   };
   
   return mimeTypes[ext || ''] || 'application/octet-stream';
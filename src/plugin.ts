@@ -0,0 +1,32 @@
+import type { Efw } from './framework';
+
+export interface PluginMeta {
+  name?: string;
+  dependencies?: string[]; // names of plugins that must be registered first
+  encapsulate?: boolean; // false shares hooks and decorators with the registering scope
+}
+
+export interface PluginOptions {
+  prefix?: string;
+  [key: string]: any;
+}
+
+export type Plugin<O extends PluginOptions = PluginOptions> = ((app: Efw, options: O) => void | Promise<void>) & {
+  [PLUGIN_META]?: PluginMeta;
+};
+
+const PLUGIN_META = Symbol('efw.plugin');
+
+/**
+ * Attaches a name, dependencies and encapsulation settings to a plugin function.
+ */
+export function definePlugin<O extends PluginOptions = PluginOptions>(
+  plugin: (app: Efw, options: O) => void | Promise<void>,
+  meta: PluginMeta
+): Plugin<O> {
+  return Object.assign(plugin, { [PLUGIN_META]: meta });
+}
+
+export function getPluginMeta(plugin: Plugin<any>): PluginMeta {
+  return plugin[PLUGIN_META] ?? {};
+}
@@ -0,0 +1,87 @@
+import type { BunFile } from 'bun';
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive, as in Content-Range
+}
+
+/**
+ * Parses a `bytes=` Range header for a representation of `size` bytes. Returns undefined when
+ * the header should be ignored (another unit or a malformed spec) and an empty list when none of
+ * the ranges is satisfiable. Overlapping and adjacent ranges are merged.
+ */
+export function parseRange(header: string, size: number): ByteRange[] | undefined {
+  const match = /^\s*bytes\s*=(.+)$/i.exec(header);
+  if (!match) return undefined;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of match[1]!.split(',')) {
+    const bounds = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec);
+    if (!bounds || (bounds[1] === '' && bounds[2] === '')) return undefined;
+
+    let start: number;
+    let end: number;
+    if (bounds[1] === '') {
+      // '-500' is the last 500 bytes
+      start = Math.max(0, size - Number(bounds[2]));
+      end = size - 1;
+    } else {
+      start = Number(bounds[1]);
+      end = bounds[2] === '' ? size - 1 : Number(bounds[2]);
+      if (end < start) return undefined;
+      end = Math.min(end, size - 1);
+    }
+
+    if (start <= end) {
+      ranges.push({ start, end });
+    }
+  }
+
+  return mergeRanges(ranges);
+}
+
+function mergeRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Builds a multipart/byteranges body that streams each slice of `file` in turn, so only the
+ * requested bytes are read.
+ */
+export function createByterangesBody(file: BunFile, ranges: ByteRange[], contentType: string, boundary: string): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  async function* parts(): AsyncGenerator<Uint8Array> {
+    for (const { start, end } of ranges) {
+      yield encoder.encode(`--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${start}-${end}/${file.size}\r\n\r\n`);
+      yield* file.slice(start, end + 1).stream() as unknown as AsyncIterable<Uint8Array>;
+      yield encoder.encode('\r\n');
+    }
+    yield encoder.encode(`--${boundary}--\r\n`);
+  }
+
+  const iterator = parts();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    }
+  });
+}
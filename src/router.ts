@@ -1,122 +1,551 @@
-import type { Route, Handler, EfwRequest, EfwResponse, NextFunction } from './types';
+import type { Route, RouteMatch, RouteHandlers, RouteOptions, RouteParams, Handler, Middleware, EfwRequest, EfwResponse, UrlOptions, UrlParams } from './types';
+import { runChain } from './middleware';
+
+type PathSegment =
+  | { type: 'static'; value: string }
+  | { type: 'param'; key: string; optional: boolean }
+  | { type: 'pattern'; source: string; keys: string[]; optional: boolean }
+  | { type: 'wildcard'; key: string };
+
+interface RouteLeaf {
+  route: Route;
+  keys: string[];
+}
+
+interface RouteNode {
+  children: Map<string, RouteNode>;
+  patternChildren: Map<string, { regex: RegExp; node: RouteNode }>;
+  paramChild?: RouteNode;
+  wildcard?: RouteLeaf;
+  leaf?: RouteLeaf;
+}
+
+interface MountedRouter {
+  path: string;
+  pattern: RegExp;
+  keys: string[];
+  router: Router;
+}
+
+const METHOD_ORDER = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+const PARAM_TOKEN = /:(\w+)(?:\(((?:\\.|[^\\()])+)\))?/g;
+
+function createNode(): RouteNode {
+  return { children: new Map(), patternChildren: new Map() };
+}
+
+function normalizeMountPath(path: string): string {
+  const trimmed = path.replace(/\/+$/, '');
+  return trimmed && !trimmed.startsWith('/') ? `/${trimmed}` : trimmed;
+}
+
+// Path of a child router's route as seen from the router it is mounted in
+function joinMountPath(mountPath: string, path: string): string {
+  return path === '/' ? mountPath || '/' : mountPath + path;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+}
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parses one path segment. Supported forms: `static`, `:name`, `:name?`,
+ * `:name(regex)`, `:from-:to` (several params with literal separators) and `*name`.
+ */
+function parseSegment(segment: string): PathSegment {
+  if (segment.startsWith('*')) {
+    return { type: 'wildcard', key: segment.slice(1) || '*' };
+  }
+
+  if (!segment.includes(':')) {
+    return { type: 'static', value: segment };
+  }
+
+  const optional = segment.startsWith(':') && segment.endsWith('?');
+  const body = optional ? segment.slice(0, -1) : segment;
+
+  const simple = body.match(/^:(\w+)$/);
+  if (simple) {
+    return { type: 'param', key: simple[1]!, optional };
+  }
+
+  const keys: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of body.matchAll(PARAM_TOKEN)) {
+    source += escapeRegex(body.slice(lastIndex, match.index));
+    source += `(${match[2] ?? '[^/]+?'})`;
+    keys.push(match[1]!);
+    lastIndex = match.index! + match[0].length;
+  }
+  source += escapeRegex(body.slice(lastIndex));
+
+  return { type: 'pattern', source, keys, optional };
+}
+
+function parsePath(path: string): PathSegment[] {
+  const segments = path.split('/').map(parseSegment);
+
+  segments.forEach((segment, index) => {
+    if (segment.type === 'wildcard' && index !== segments.length - 1) {
+      throw new Error(`Wildcard must be the last segment of route "${path}"`);
+    }
+  });
+
+  return segments;
+}
+
+function buildPath(route: Route, params: UrlParams): string {
+  const valueOf = (key: string, constraint?: string): string => {
+    const value = params[key];
+    if (value === undefined) {
+      throw new Error(`Missing param "${key}" for route "${route.name}"`);
+    }
+    if (constraint && !new RegExp(`^(?:${constraint})$`).test(String(value))) {
+      throw new Error(`Param "${key}" for route "${route.name}" must match ${constraint}`);
+    }
+    return String(value);
+  };
+
+  const segments = route.path.split('/').flatMap((segment): string[] => {
+    if (segment.startsWith('*')) {
+      return valueOf(segment.slice(1) || '*').split('/').map(encodeURIComponent);
+    }
+
+    const optional = segment.startsWith(':') && segment.endsWith('?');
+    const body = optional ? segment.slice(0, -1) : segment;
+    if (optional && [...body.matchAll(PARAM_TOKEN)].every(match => params[match[1]!] === undefined)) {
+      return [];
+    }
+
+    return [body.replace(PARAM_TOKEN, (_, key: string, constraint?: string) => encodeURIComponent(valueOf(key, constraint)))];
+  });
+
+  return segments.join('/') || '/';
+}
+
+function buildQuery(query: UrlOptions['query'] = {}): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined) search.append(key, String(item));
+    }
+  }
+
+  const encoded = search.toString();
+  return encoded ? `?${encoded}` : '';
+}
+
+/**
+ * Expands optional segments into every concrete variant so each one gets its own tree leaf.
+ */
+function expandOptionalSegments(segments: PathSegment[]): PathSegment[][] {
+  let variants: PathSegment[][] = [[]];
+
+  for (const segment of segments) {
+    const optional = (segment.type === 'param' || segment.type === 'pattern') && segment.optional;
+    const withSegment = variants.map(variant => [...variant, segment]);
+    variants = optional ? [...variants, ...withSegment] : withSegment;
+  }
+
+  return variants;
+}
 
 export class Router {
   private routes: Route[] = [];
+  private trees: Map<string, RouteNode> = new Map();
+  private middlewares: Array<{ path?: string; middleware: Middleware }> = [];
+  private mounts: MountedRouter[] = [];
+  private named: Map<string, Route> = new Map();
 
-  private pathToRegex(path: string): { pattern: RegExp; keys: string[] } {
+  private pathToRegex(path: string, end: boolean = true): { pattern: RegExp; keys: string[] } {
     const keys: string[] = [];
-    const pattern = path
-      .replace(/\/:([^\/]+)/g, (match, key) => {
-        keys.push(key);
-        return '/([^/]+)';
-      })
-      .replace(/\//g, '\\/');
-    
+    let pattern = '';
+
+    parsePath(path).forEach((segment, index) => {
+      const separator = index === 0 ? '' : '\\/';
+
+      switch (segment.type) {
+        case 'static':
+          pattern += separator + escapeRegex(segment.value);
+          break;
+        case 'param':
+          keys.push(segment.key);
+          pattern += segment.optional ? `(?:${separator}([^/]+))?` : `${separator}([^/]+)`;
+          break;
+        case 'pattern':
+          keys.push(...segment.keys);
+          pattern += segment.optional ? `(?:${separator}${segment.source})?` : separator + segment.source;
+          break;
+        case 'wildcard':
+          keys.push(segment.key);
+          pattern += `${separator}(.+)`;
+          break;
+      }
+    });
+
     return {
-      pattern: new RegExp(`^${pattern}$`),
+      pattern: new RegExp(`^${pattern}${end ? '$' : '(?=\\/|$)'}`),
       keys
     };
   }
 
-  public addRoute(method: string, path: string, ...handlers: Handler[]): void {
+  /**
+   * Registers middleware scoped to this router, or mounts a child router under a prefix.
+   * Scoped middleware only runs for requests that resolve to a route inside this router.
+   */
+  public use(pathOrHandler: string | Middleware | Router, handler?: Middleware | Router): void {
+    const path = typeof pathOrHandler === 'string' ? pathOrHandler : undefined;
+    const target = typeof pathOrHandler === 'string' ? handler : pathOrHandler;
+
+    if (!target) {
+      throw new Error('Router.use() requires a middleware function or a Router');
+    }
+
+    if (target instanceof Router) {
+      const mountPath = normalizeMountPath(path || '');
+      const namedPaths = this.getNamedPaths();
+      for (const [name, childPath] of target.getNamedPaths()) {
+        const existing = namedPaths.get(name);
+        if (existing !== undefined && existing !== joinMountPath(mountPath, childPath)) {
+          throw new Error(`Route name "${name}" is already used by "${existing}"`);
+        }
+      }
+
+      const { pattern, keys } = this.pathToRegex(mountPath, false);
+      this.mounts.push({ path: mountPath, pattern, keys, router: target });
+    } else {
+      this.middlewares.push({ path: path === undefined ? undefined : normalizeMountPath(path), middleware: target });
+    }
+  }
+
+  public addRoute(method: string, path: string, ...args: RouteHandlers): Route {
     const { pattern, keys } = this.pathToRegex(path);
-    
-    this.routes.push({
+    const options = typeof args[0] === 'object' ? (args[0] as RouteOptions) : undefined;
+    const { name, timeout, ...hooks } = options ?? {};
+    const route: Route = {
       method: method.toUpperCase(),
       path,
       pattern,
       keys,
-      handlers
-    });
+      handlers: (options ? args.slice(1) : args) as Handler[]
+    };
+
+    if (Object.keys(hooks).length > 0) {
+      route.hooks = hooks;
+    }
+
+    if (name !== undefined) {
+      // One name may cover several methods, but only a single path
+      // Mounted routers count too, so every name resolves to a single path
+      const existing = this.findNamed(name);
+      if (existing && existing.path !== path) {
+        throw new Error(`Route name "${name}" is already used by "${existing.path}"`);
+      }
+      route.name = name;
+      if (!this.named.has(name)) {
+        this.named.set(name, route);
+      }
+    }
+
+    if (timeout !== undefined) {
+      route.timeout = timeout;
+    }
+
+    this.routes.push(route);
+    this.insertRoute(route);
+
+    return route;
   }
 
-  public get(path: string, ...handlers: Handler[]): void {
-    this.addRoute('GET', path, ...handlers);
+  private insertRoute(route: Route): void {
+    let root = this.trees.get(route.method);
+    if (!root) {
+      root = createNode();
+      this.trees.set(route.method, root);
+    }
+
+    for (const segments of expandOptionalSegments(parsePath(route.path))) {
+      let node = root;
+      const keys: string[] = [];
+
+      for (const segment of segments) {
+        if (segment.type === 'wildcard') {
+          // The first registration of a path wins, matching the old linear scan
+          node.wildcard ??= { route, keys: [...keys, segment.key] };
+          break;
+        }
+
+        if (segment.type === 'static') {
+          let child = node.children.get(segment.value);
+          if (!child) {
+            child = createNode();
+            node.children.set(segment.value, child);
+          }
+          node = child;
+        } else if (segment.type === 'param') {
+          keys.push(segment.key);
+          node.paramChild ??= createNode();
+          node = node.paramChild;
+        } else {
+          keys.push(...segment.keys);
+          let child = node.patternChildren.get(segment.source);
+          if (!child) {
+            child = { regex: new RegExp(`^${segment.source}$`), node: createNode() };
+            node.patternChildren.set(segment.source, child);
+          }
+          node = child.node;
+        }
+      }
+
+      if (segments[segments.length - 1]?.type !== 'wildcard') {
+        node.leaf ??= { route, keys };
+      }
+    }
   }
 
-  public post(path: string, ...handlers: Handler[]): void {
-    this.addRoute('POST', path, ...handlers);
+  private matchNode(node: RouteNode, segments: string[], index: number, values: string[]): RouteLeaf | null {
+    if (index === segments.length) {
+      return node.leaf ?? null;
+    }
+
+    const segment = segments[index]!;
+
+    // Static segments take priority, then constrained patterns, then plain params, then wildcards
+    const staticChild = node.children.get(segment);
+    if (staticChild) {
+      const leaf = this.matchNode(staticChild, segments, index + 1, values);
+      if (leaf) return leaf;
+    }
+
+    for (const { regex, node: child } of node.patternChildren.values()) {
+      const match = segment.match(regex);
+      if (!match) continue;
+
+      const captured = match.slice(1) as string[];
+      values.push(...captured);
+      const leaf = this.matchNode(child, segments, index + 1, values);
+      if (leaf) return leaf;
+      values.length -= captured.length;
+    }
+
+    if (node.paramChild && segment !== '') {
+      values.push(segment);
+      const leaf = this.matchNode(node.paramChild, segments, index + 1, values);
+      if (leaf) return leaf;
+      values.pop();
+    }
+
+    if (node.wildcard) {
+      const rest = segments.slice(index).join('/');
+      if (rest !== '') {
+        values.push(rest);
+        return node.wildcard;
+      }
+    }
+
+    return null;
   }
 
-  public put(path: string, ...handlers: Handler[]): void {
-    this.addRoute('PUT', path, ...handlers);
+  public get<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('GET', path, ...(handlers as RouteHandlers));
   }
 
-  public delete(path: string, ...handlers: Handler[]): void {
-    this.addRoute('DELETE', path, ...handlers);
+  public post<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('POST', path, ...(handlers as RouteHandlers));
   }
 
-  public patch(path: string, ...handlers: Handler[]): void {
-    this.addRoute('PATCH', path, ...handlers);
+  public put<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('PUT', path, ...(handlers as RouteHandlers));
   }
 
-  public options(path: string, ...handlers: Handler[]): void {
-    this.addRoute('OPTIONS', path, ...handlers);
+  public delete<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('DELETE', path, ...(handlers as RouteHandlers));
   }
 
-  public head(path: string, ...handlers: Handler[]): void {
-    this.addRoute('HEAD', path, ...handlers);
+  public patch<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('PATCH', path, ...(handlers as RouteHandlers));
   }
 
-  public findRoute(method: string, path: string): { route: Route; params: Record<string, string> } | null {
-    for (const route of this.routes) {
-      if (route.method !== method.toUpperCase()) continue;
-      
-      const match = path.match(route.pattern);
-      if (match) {
+  public options<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('OPTIONS', path, ...(handlers as RouteHandlers));
+  }
+
+  public head<Path extends string>(path: Path, ...handlers: RouteHandlers<RouteParams<Path>>): void {
+    this.addRoute('HEAD', path, ...(handlers as RouteHandlers));
+  }
+
+  public findRoute(method: string, path: string): RouteMatch | null {
+    const tree = this.trees.get(method.toUpperCase());
+
+    if (tree) {
+      const values: string[] = [];
+      const leaf = this.matchNode(tree, path.split('/'), 0, values);
+
+      if (leaf) {
         const params: Record<string, string> = {};
-        route.keys.forEach((key, index) => {
-          params[key] = match[index + 1];
+        leaf.keys.forEach((key, index) => {
+          if (values[index] !== undefined) {
+            params[key] = decodeParam(values[index]);
+          }
         });
-        
-        return { route, params };
+
+        return {
+          route: leaf.route,
+          params,
+          handlers: [...this.getScopedMiddleware(path), ...leaf.route.handlers],
+          baseUrl: ''
+        };
       }
     }
-    
+
+    for (const mount of this.mounts) {
+      const match = path.match(mount.pattern);
+      if (!match) continue;
+
+      const childMatch = mount.router.findRoute(method, path.slice(match[0].length) || '/');
+      if (!childMatch) continue;
+
+      const params: Record<string, string> = {};
+      mount.keys.forEach((key, index) => {
+        if (match[index + 1] !== undefined) {
+          params[key] = decodeParam(match[index + 1]!);
+        }
+      });
+
+      return {
+        route: childMatch.route,
+        params: { ...params, ...childMatch.params },
+        handlers: [...this.getScopedMiddleware(path), ...childMatch.handlers],
+        baseUrl: match[0] + childMatch.baseUrl
+      };
+    }
+
     return null;
   }
 
+  /**
+   * Lists the methods that have a route for `path`, as advertised in `Allow` headers.
+   * HEAD is implied by GET and OPTIONS is always answered. Returns an empty list for unknown paths.
+   */
+  public getAllowedMethods(path: string): string[] {
+    const allowed = [...this.getMethods()].filter(method => this.findRoute(method, path));
+    if (allowed.length === 0) {
+      return [];
+    }
+
+    if (allowed.includes('GET') && !allowed.includes('HEAD')) {
+      allowed.push('HEAD');
+    }
+    if (!allowed.includes('OPTIONS')) {
+      allowed.push('OPTIONS');
+    }
+
+    const rank = (method: string) => {
+      const index = METHOD_ORDER.indexOf(method);
+      return index === -1 ? METHOD_ORDER.length : index;
+    };
+
+    return allowed.sort((a, b) => rank(a) - rank(b));
+  }
+
+  private getMethods(): Set<string> {
+    const methods = new Set(this.trees.keys());
+
+    for (const mount of this.mounts) {
+      for (const method of mount.router.getMethods()) {
+        methods.add(method);
+      }
+    }
+
+    return methods;
+  }
+
+  private getScopedMiddleware(path: string): Handler[] {
+    return this.middlewares
+      // '/admin' covers '/admin' and '/admin/...', but not '/administrator'
+      .filter(({ path: prefix }) => !prefix || path === prefix || path.startsWith(`${prefix}/`))
+      .map(({ middleware }) => middleware as Handler);
+  }
+
   public async executeHandlers(
     handlers: Handler[],
     req: EfwRequest,
     res: EfwResponse
   ): Promise<void> {
-    let currentIndex = 0;
+    await runChain(handlers, req, res);
+  }
 
-    const next: NextFunction = (error?: Error) => {
-      if (error) {
-        throw error;
-      }
-      
-      currentIndex++;
-      if (currentIndex < handlers.length) {
-        const handler = handlers[currentIndex];
-        try {
-          const result = handler(req, res, next);
-          if (result instanceof Promise) {
-            result.catch(next);
-          }
-        } catch (err) {
-          next(err as Error);
-        }
+  /**
+   * Builds the path of a named route, including routes in mounted routers. Param values are
+   * URL-encoded and checked against regex constraints; unknown names and missing params throw.
+   */
+  public url(name: string, params: UrlParams = {}, options: UrlOptions = {}): string {
+    const found = this.findNamed(name);
+    if (!found) {
+      throw new Error(`No route named "${name}"`);
+    }
+    return buildPath({ ...found.route, path: found.path }, params) + buildQuery(options.query);
+  }
+
+  public hasName(name: string): boolean {
+    return this.findNamed(name) !== undefined;
+  }
+
+  // Names are indexed per router as routes are added, so lookups never rebuild the route list
+  private findNamed(name: string): { route: Route; path: string } | undefined {
+    const route = this.named.get(name);
+    if (route) {
+      return { route, path: route.path };
+    }
+
+    for (const mount of this.mounts) {
+      const found = mount.router.findNamed(name);
+      if (found) {
+        return { route: found.route, path: joinMountPath(mount.path, found.path) };
       }
-    };
+    }
+    return undefined;
+  }
+
+  private getNamedPaths(): Map<string, string> {
+    const paths = new Map([...this.named].map(([name, route]) => [name, route.path]));
 
-    if (handlers.length > 0) {
-      try {
-        const result = handlers[0](req, res, next);
-        if (result instanceof Promise) {
-          await result.catch((err) => {
-            throw err;
-          });
+    for (const mount of this.mounts) {
+      for (const [name, path] of mount.router.getNamedPaths()) {
+        if (!paths.has(name)) {
+          paths.set(name, joinMountPath(mount.path, path));
         }
-      } catch (error) {
-        throw error;
       }
     }
+    return paths;
+  }
+
+  // True when `route` belongs to this router or to one mounted in it, however deeply
+  public hasRoute(route: Route): boolean {
+    return this.routes.includes(route) || this.mounts.some(mount => mount.router.hasRoute(route));
   }
 
   public getRoutes(): Route[] {
-    return [...this.routes];
+    const routes = [...this.routes];
+
+    for (const mount of this.mounts) {
+      for (const route of mount.router.getRoutes()) {
+        const path = joinMountPath(mount.path, route.path);
+        routes.push({ ...route, path, ...this.pathToRegex(path) });
+      }
+    }
+
+    return routes;
   }
 }
\ No newline at end of file
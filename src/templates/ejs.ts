@@ -1,5 +1,5 @@
 import ejs from 'ejs';
-import type { EfwRequest, EfwResponse } from '../types';
+import type { EfwRequest, EfwResponse, UrlBuilder } from '../types';
 
 export interface EjsOptions {
   viewsDir?: string;
@@ -18,15 +18,18 @@ export interface EjsOptions {
   strict?: boolean;
   outputFunctionName?: string;
   localsName?: string;
+  url?: UrlBuilder; // e.g. app.url.bind(app), exposed to templates as url()
 }
 
 export class EjsEngine {
   private viewsDir: string;
   private options: EjsOptions;
+  private url?: UrlBuilder;
   private compiledTemplates: Map<string, ejs.TemplateFunction> = new Map();
 
-  constructor(options: EjsOptions = {}) {
+  constructor({ url, ...options }: EjsOptions = {}) {
     this.viewsDir = options.viewsDir || './views';
+    this.url = url;
     this.options = {
       cache: false,
       debug: false,
@@ -67,6 +70,7 @@ export class EjsEngine {
     const compiledTemplate = await this.getTemplate(templatePath);
     
     return compiledTemplate({
+      ...(this.url && { url: this.url }),
       ...data,
       include: (path: string, includeData?: any) => {
         return this.renderSync(path, { ...data, ...includeData });
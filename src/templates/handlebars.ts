@@ -1,5 +1,5 @@
 import Handlebars from 'handlebars';
-import type { EfwRequest, EfwResponse } from '../types';
+import type { EfwRequest, EfwResponse, UrlBuilder } from '../types';
 
 export interface HandlebarsOptions {
   viewsDir?: string;
@@ -8,6 +8,7 @@ export interface HandlebarsOptions {
   partialsDir?: string;
   helpers?: Record<string, Handlebars.HelperDelegate>;
   compileOptions?: CompileOptions;
+  url?: UrlBuilder; // e.g. app.url.bind(app), exposed as the `url` helper
 }
 
 export interface CompileOptions {
@@ -39,6 +40,10 @@ export class HandlebarsEngine {
     this.compileOptions = options.compileOptions || {};
 
     this.registerDefaultHelpers();
+
+    if (options.url) {
+      this.registerHelper('url', createUrlHelper(options.url));
+    }
     
     if (options.helpers) {
       this.registerHelpers(options.helpers);
@@ -167,4 +172,16 @@ export class HandlebarsEngine {
 export function createHandlebarsRenderer(options: HandlebarsOptions = {}): (template: string, data?: any) => Promise<string> {
   const engine = new HandlebarsEngine(options);
   return (template: string, data?: any) => engine.render(template, data);
-}
\ No newline at end of file
+}
+
+/**
+ * `{{url 'user.show' id=5}}` or `{{url 'user.show' user}}`: hash arguments are merged over an
+ * optional params object, and a `query` hash argument becomes the query string.
+ */
+export function createUrlHelper(url: UrlBuilder): Handlebars.HelperDelegate {
+  return (name: string, ...args: any[]) => {
+    const options: Handlebars.HelperOptions = args.pop();
+    const { query, ...hash } = options.hash;
+    return url(name, { ...args[0], ...hash }, { query });
+  };
+}
@@ -1,47 +1,110 @@
-export interface EfwRequest {
+import type { ServerWebSocket } from 'bun';
+import type { SseOptions, SseStream } from '../utils/sse';
+import type { MultipartOptions, UploadedFile } from '../utils/multipart';
+import type { BodyParserOptions } from '../bodyParser';
+import type { Container } from '../container';
+import type { ETagMode, Validators } from '../conditional';
+
+export type DefaultParams = Record<string, string>;
+export type DefaultQuery = Record<string, string>;
+
+export interface EfwRequest<P = DefaultParams, Q = DefaultQuery, B = any> {
   method: string;
   url: string;
   path: string;
-  query: Record<string, string>;
-  params: Record<string, string>;
+  hostname: string; // without the port; from X-Forwarded-Host when trustProxy is set
+  hostParams: Record<string, string>; // labels captured by an app.host() pattern
+  originalUrl?: string;
+  baseUrl?: string;
+  route?: Route; // the matched route, set once routing has run
+  query: Q;
+  params: P;
   headers: Record<string, string>;
-  body?: any;
+  body?: B;
+  rawBody?: Uint8Array;
+  files?: Record<string, UploadedFile[]>;
   cookies: Record<string, string>;
   session?: any;
   user?: any;
   requestId?: string;
+  container: Container; // request scope of app.container
+  signal: AbortSignal; // aborts when the client disconnects or the request times out
 }
 
-export interface EfwResponse {
+export interface EfwResponse<R = any> {
   statusCode: number;
-  headers: Record<string, string>;
-  json(data: any): void;
+  headers: Headers;
+  json(data: R): void;
   text(data: string): void;
   html(data: string): void;
-  status(code: number): EfwResponse;
+  status(code: number): EfwResponse<R>;
   setHeader(name: string, value: string): void;
+  appendHeader(name: string, value: string): void;
+  getHeader(name: string): string | string[] | undefined;
+  removeHeader(name: string): void;
   cookie(name: string, value: string, options?: CookieOptions): void;
   redirect(url: string, code?: number): void;
   render(template: string, data?: any): void;
   send(data: any): void;
+  sendFile(path: string, options?: SendFileOptions): Promise<void>; // with validators and Range support
+  write(chunk: string | Uint8Array): boolean;
+  end(chunk?: string | Uint8Array): void;
+  stream(source: ReadableStream<string | Uint8Array> | AsyncIterable<string | Uint8Array>): Promise<void>;
+  sse(options?: SseOptions): SseStream;
+  // Sets ETag/Last-Modified and answers 304 or 412 if the conditional headers call for it; false means stop
+  checkPreconditions(validators: Validators): boolean;
+  readonly headersSent: boolean;
   isSent(): boolean;
 }
 
 export interface CookieOptions {
+  expires?: Date;
   maxAge?: number;
   httpOnly?: boolean;
   secure?: boolean;
   sameSite?: 'strict' | 'lax' | 'none';
   path?: string;
   domain?: string;
+  priority?: 'low' | 'medium' | 'high';
 }
 
-export interface Handler {
-  (req: EfwRequest, res: EfwResponse, next?: NextFunction): void | Promise<void>;
+export interface SendFileOptions {
+  root?: string; // `path` is resolved inside this directory and may not leave it
+  headers?: Record<string, string>;
+  acceptRanges?: boolean; // defaults to true
 }
 
+export interface Handler<P = DefaultParams, Q = DefaultQuery, B = any, R = any> {
+  (req: EfwRequest<P, Q, B>, res: EfwResponse<R>, next?: NextFunction): void | Promise<void>;
+}
+
+// Route params inferred from a path string: '/users/:id/files/*path' -> { id: string; path: string }
+type ParamKey<S extends string> =
+  S extends `${infer Name}(${string}` ? ParamKey<Name>
+  : S extends `${infer Name}-${string}` ? Name
+  : S extends `${infer Name}.${string}` ? Name
+  : S;
+
+type PatternParams<S extends string> =
+  S extends `${string}:${infer Rest}`
+    ? Rest extends `${infer Head}:${infer Tail}`
+      ? { [K in ParamKey<Head>]: string } & PatternParams<`:${Tail}`>
+      : { [K in ParamKey<Rest>]: string }
+    : {};
+
+type SegmentParams<S extends string> =
+  S extends `*${infer Name}` ? { [K in Name extends '' ? '*' : Name]: string }
+  : S extends `:${infer Body}?` ? Partial<PatternParams<`:${Body}`>>
+  : PatternParams<S>;
+
+type PathParams<S extends string> =
+  S extends `${infer Head}/${infer Rest}` ? SegmentParams<Head> & PathParams<Rest> : SegmentParams<S>;
+
+export type RouteParams<Path extends string> =
+  string extends Path ? DefaultParams : { [K in keyof PathParams<Path>]: PathParams<Path>[K] };
+
 export interface NextFunction {
-  (error?: Error): void;
+  (error?: Error): void | Promise<void>; // resolves once the rest of the chain has run
 }
 
 export interface Middleware {
@@ -58,6 +121,68 @@ export interface Route {
   pattern: RegExp;
   keys: string[];
   handlers: Handler[];
+  hooks?: RouteHooks;
+  schema?: RouteSchema; // set for routes declared with app.route()
+  name?: string; // for building URLs with app.url()
+  timeout?: number; // ms; overrides EfwOptions.timeout
+}
+
+export type RequestHook = (req: EfwRequest, res: EfwResponse) => void | Promise<void>;
+// Returning a value other than undefined replaces the payload that is sent
+export type OnSendHook = (req: EfwRequest, res: EfwResponse, payload: any) => any;
+export type OnResponseHook = (req: EfwRequest, res: EfwResponse, responseTime: number) => void | Promise<void>;
+export type OnErrorHook = (error: Error, req: EfwRequest, res: EfwResponse) => void | Promise<void>;
+
+export interface LifecycleHooks {
+  onRequest: RequestHook; // before body parsing, middleware and routing
+  preHandler: RequestHook; // after routing, before the route handlers
+  onSend: OnSendHook; // before the Response is built
+  onResponse: OnResponseHook; // after the Response is built
+  onError: OnErrorHook; // before the default error response
+}
+
+export type HookName = keyof LifecycleHooks;
+
+// onRequest runs before routing, so it can only be registered on the app
+export type RouteHooks = {
+  [K in Exclude<HookName, 'onRequest'>]?: LifecycleHooks[K] | LifecycleHooks[K][];
+};
+
+// Accepted in place of the first handler: route-level hooks plus an optional route name and timeout
+export type RouteOptions = RouteHooks & { name?: string; timeout?: number };
+
+export type RouteHandlers<P = DefaultParams> = Handler<P>[] | [RouteOptions, ...Handler<P>[]];
+
+type UrlValue = string | number | boolean;
+export type UrlParams = Record<string, UrlValue | undefined>;
+
+export interface UrlOptions {
+  query?: Record<string, UrlValue | UrlValue[] | undefined>;
+}
+
+export type UrlBuilder = (name: string, params?: UrlParams, options?: UrlOptions) => string;
+
+export interface WebSocketData<T = any> {
+  req: EfwRequest;
+  params: Record<string, string>;
+  state: T;
+}
+
+export type EfwWebSocket<T = any> = ServerWebSocket<WebSocketData<T>>;
+
+export interface WebSocketHandlers<T = any> {
+  upgrade?(req: EfwRequest, res: EfwResponse): T | void | Promise<T | void>;
+  open?(ws: EfwWebSocket<T>): void | Promise<void>;
+  message?(ws: EfwWebSocket<T>, message: string | Buffer): void | Promise<void>;
+  close?(ws: EfwWebSocket<T>, code: number, reason: string): void | Promise<void>;
+  drain?(ws: EfwWebSocket<T>): void | Promise<void>;
+}
+
+export interface RouteMatch {
+  route: Route;
+  params: Record<string, string>;
+  handlers: Handler[];
+  baseUrl: string;
 }
 
 export interface EfwOptions {
@@ -67,6 +192,40 @@ export interface EfwOptions {
   staticPath?: string;
   templateEngine?: 'handlebars' | 'ejs';
   templateDir?: string;
+  multipart?: MultipartOptions;
+  bodyParser?: BodyParserOptions;
+  shutdown?: ShutdownOptions;
+  trustProxy?: boolean; // honour X-Forwarded-Host set by a reverse proxy
+  timeout?: number; // ms before a request without a response gets a 503; off by default
+  etag?: ETagMode; // ETags for buffered GET/HEAD responses; off by default
+}
+
+export interface CloseOptions {
+  timeout?: number; // ms to wait for in-flight requests before open connections are cut
+}
+
+export interface ShutdownOptions extends CloseOptions {
+  signals?: boolean | NodeJS.Signals[]; // true handles SIGTERM and SIGINT
+}
+
+export type CloseHook = () => void | Promise<void>;
+
+export interface InjectOptions {
+  method?: string; // defaults to GET
+  url: string; // path with an optional query string, e.g. '/users?page=2'
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  body?: any; // plain objects and arrays are sent as JSON
+}
+
+export interface InjectResponse {
+  status: number;
+  headers: Record<string, string>; // without set-cookie, which can repeat
+  setCookies: string[]; // every Set-Cookie header, attributes included
+  body: any; // parsed JSON for JSON responses, otherwise the text
+  text: string;
+  cookies: Record<string, string>; // name/value pairs from Set-Cookie
 }
 
 export interface CorsOptions {
@@ -102,10 +261,53 @@ export interface ValidationSchema {
     min?: number;
     max?: number;
     pattern?: RegExp;
-    enum?: any[];
+    enum?: readonly any[];
   };
 }
 
+export interface RouteSchema {
+  body?: ValidationSchema;
+  query?: ValidationSchema;
+  params?: ValidationSchema;
+  headers?: ValidationSchema;
+  response?: { [statusCode: number]: ValidationSchema }; // unknown fields are stripped from matching responses
+}
+
+type FieldType<R> =
+  R extends { enum: readonly (infer E)[] } ? E
+  : R extends { type: 'string' } ? string
+  : R extends { type: 'number' } ? number
+  : R extends { type: 'boolean' } ? boolean
+  : R extends { type: 'array' } ? any[]
+  : R extends { type: 'object' } ? Record<string, any>
+  : any;
+
+// Typed view of the values a ValidationSchema accepts; fields are optional unless `required: true`
+export type InferSchema<S extends ValidationSchema> = {
+  -readonly [K in keyof S as S[K] extends { required: true } ? K : never]: FieldType<S[K]>;
+} & {
+  -readonly [K in keyof S as S[K] extends { required: true } ? never : K]?: FieldType<S[K]>;
+};
+
+type SchemaPart<S, K extends keyof RouteSchema, Fallback> =
+  S extends { [P in K]: infer Part extends ValidationSchema } ? InferSchema<Part> : Fallback;
+
+type ResponseBody<S> = S extends ValidationSchema ? InferSchema<S> | InferSchema<S>[] : never;
+
+type SchemaResponse<S> = S extends { response: infer Responses } ? ResponseBody<Responses[keyof Responses]> : any;
+
+export type RouteDefinition<Path extends string, S extends RouteSchema> = RouteOptions & {
+  method: string | string[];
+  path: Path;
+  schema?: S;
+  handler: Handler<
+    SchemaPart<S, 'params', RouteParams<Path>>,
+    SchemaPart<S, 'query', DefaultQuery>,
+    SchemaPart<S, 'body', any>,
+    SchemaResponse<S>
+  >;
+};
+
 export interface RateLimitOptions {
   windowMs: number;
   max: number;
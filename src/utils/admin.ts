@@ -4,10 +4,14 @@ import { Dashboard } from './dashboard';
 import { AssetVersioning } from './assets';
 import { ConfigManager } from './config';
 import { globalCache } from './cache';
+import { definePlugin } from '../plugin';
+import type { RequestHook } from '../types';
+import type { Router } from '../router';
 
 export class AdminPanel {
   private static instance: AdminPanel;
   private isEnabled: boolean = false;
+  private router?: Pick<Router, 'url'>;
 
   private constructor() {}
 
@@ -30,6 +34,19 @@ export class AdminPanel {
     return this.isEnabled;
   }
 
+  setRouter(router: Pick<Router, 'url'>): void {
+    this.router = router;
+  }
+
+  // Links to the plugin's own routes by name, so they follow the configured admin path
+  private link(name: string, fallback: string): string {
+    try {
+      return this.router?.url(name) ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
   generateMainPage(): string {
     if (!this.isEnabled) {
       return this.generateAccessDenied();
@@ -160,12 +177,9 @@ export class AdminPanel {
         </div>
 
         <div class="nav">
-            <a href="/admin/dashboard" class="nav-item">📊 Dashboard</a>
-            <a href="/admin/routes" class="nav-item">🛣️ Routes</a>
-            <a href="/admin/logs" class="nav-item">📝 Logs</a>
-            <a href="/admin/cache" class="nav-item">💾 Cache</a>
-            <a href="/admin/config" class="nav-item">⚙️ Config</a>
-            <a href="/admin/assets" class="nav-item">🎨 Assets</a>
+            <a href="${this.link('admin.dashboard', '/admin/dashboard')}" class="nav-item">📊 Dashboard</a>
+            <a href="${this.link('admin.routes', '/admin/routes')}" class="nav-item">🛣️ Routes</a>
+            <a href="${this.link('admin.config', '/admin/config')}" class="nav-item">⚙️ Config</a>
         </div>
 
         <div class="grid">
@@ -185,7 +199,7 @@ export class AdminPanel {
                 </div>
                 <div class="metric">
                     <span class="metric-label">Uptime</span>
-                    <span class="metric-value">${this.formatDuration(systemMetrics.uptime)}</span>
+                    <span class="metric-value" data-metric="uptime">${this.formatDuration(systemMetrics.uptime)}</span>
                 </div>
             </div>
 
@@ -193,19 +207,19 @@ export class AdminPanel {
                 <h2 class="card-title">Performance Metrics</h2>
                 <div class="metric">
                     <span class="metric-label">Total Requests</span>
-                    <span class="metric-value">${systemMetrics.requestCount.toLocaleString()}</span>
+                    <span class="metric-value" data-metric="requestCount">${systemMetrics.requestCount.toLocaleString()}</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">Error Rate</span>
-                    <span class="metric-value">${((systemMetrics.errorCount / Math.max(systemMetrics.requestCount, 1)) * 100).toFixed(2)}%</span>
+                    <span class="metric-value" data-metric="errorRate">${((systemMetrics.errorCount / Math.max(systemMetrics.requestCount, 1)) * 100).toFixed(2)}%</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">Avg Response Time</span>
-                    <span class="metric-value">${systemMetrics.averageResponseTime.toFixed(2)}ms</span>
+                    <span class="metric-value" data-metric="averageResponseTime">${systemMetrics.averageResponseTime.toFixed(2)}ms</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">Memory Usage</span>
-                    <span class="metric-value">${this.formatBytes(systemMetrics.memoryUsage.heapUsed)}</span>
+                    <span class="metric-value" data-metric="heapUsed">${this.formatBytes(systemMetrics.memoryUsage.heapUsed)}</span>
                 </div>
             </div>
 
@@ -257,15 +271,13 @@ export class AdminPanel {
                     <span class="metric-label">POST Routes</span>
                     <span class="metric-value">${efwInfo.routes.filter(r => r.method === 'POST').length}</span>
                 </div>
-                <a href="/admin/routes" class="action-btn">View All Routes</a>
+                <a href="${this.link('admin.routes', '/admin/routes')}" class="action-btn">View All Routes</a>
             </div>
 
             <div class="card">
                 <h2 class="card-title">Quick Actions</h2>
                 <button class="action-btn" onclick="window.location.reload()">Refresh Panel</button>
-                <button class="action-btn" onclick="downloadLogs()">Download Logs</button>
                 <button class="action-btn" onclick="exportConfig()">Export Config</button>
-                <button class="action-btn danger" onclick="restartServer()">Restart Server</button>
             </div>
         </div>
 
@@ -295,35 +307,50 @@ export class AdminPanel {
     <script>
         function clearCache() {
             if (confirm('Are you sure you want to clear the cache?')) {
-                fetch('/admin/api/cache/clear', { method: 'POST' })
+                fetch('${this.link('admin.cache.clear', '/admin/api/cache/clear')}', { method: 'POST' })
                     .then(() => window.location.reload());
             }
         }
 
         function refreshAssets() {
-            fetch('/admin/api/assets/refresh', { method: 'POST' })
+            fetch('${this.link('admin.assets.refresh', '/admin/api/assets/refresh')}', { method: 'POST' })
                 .then(() => window.location.reload());
         }
 
-        function downloadLogs() {
-            window.open('/admin/api/logs/download', '_blank');
-        }
-
         function exportConfig() {
-            window.open('/admin/api/config/export', '_blank');
-        }
-
-        function restartServer() {
-            if (confirm('Are you sure you want to restart the server? This will disconnect all users.')) {
-                fetch('/admin/api/server/restart', { method: 'POST' })
-                    .then(() => alert('Server restart initiated'));
-            }
+            window.open('${this.link('admin.config.export', '/admin/api/config/export')}', '_blank');
         }
 
-        // Auto-refresh every 30 seconds
-        setTimeout(() => {
-            window.location.reload();
-        }, 30000);
+        const formatBytes = (bytes) => {
+            if (bytes === 0) return '0 Bytes';
+            const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+            const i = Math.floor(Math.log(bytes) / Math.log(1024));
+            return parseFloat((bytes / Math.pow(1024, i)).toFixed(2)) + ' ' + sizes[i];
+        };
+        const formatDuration = (ms) => {
+            const seconds = Math.floor(ms / 1000);
+            const minutes = Math.floor(seconds / 60);
+            const hours = Math.floor(minutes / 60);
+            const days = Math.floor(hours / 24);
+            if (days > 0) return days + 'd ' + (hours % 24) + 'h';
+            if (hours > 0) return hours + 'h ' + (minutes % 60) + 'm';
+            if (minutes > 0) return minutes + 'm ' + (seconds % 60) + 's';
+            return seconds + 's';
+        };
+        const setMetric = (name, text) => {
+            document.querySelector('[data-metric="' + name + '"]').textContent = text;
+        };
+
+        // Live metrics from the monitor plugin's stream instead of reloading the panel
+        const metrics = new EventSource(${JSON.stringify(this.link('dev.metrics.stream', '/dev/metrics/stream'))});
+        metrics.addEventListener('metrics', (event) => {
+            const { system } = JSON.parse(event.data);
+            setMetric('uptime', formatDuration(system.uptime));
+            setMetric('requestCount', system.requestCount.toLocaleString());
+            setMetric('errorRate', ((system.errorCount / Math.max(system.requestCount, 1)) * 100).toFixed(2) + '%');
+            setMetric('averageResponseTime', system.averageResponseTime.toFixed(2) + 'ms');
+            setMetric('heapUsed', formatBytes(system.memoryUsage.heapUsed));
+        });
     </script>
 </body>
 </html>`;
@@ -475,7 +502,7 @@ export class AdminPanel {
 
     <div class="container">
         <div class="breadcrumb">
-            <a href="/admin">Admin Panel</a> / Configuration
+            <a href="${this.link('admin', '/admin')}">Admin Panel</a> / Configuration
         </div>
 
         <div class="card">
@@ -496,19 +523,20 @@ export class AdminPanel {
 
     <script>
         function reloadConfig() {
-            fetch('/admin/api/config/reload', { method: 'POST' })
+            fetch('${this.link('admin.config.reload', '/admin/api/config/reload')}', { method: 'POST' })
                 .then(() => window.location.reload());
         }
 
         function exportConfig() {
-            window.open('/admin/api/config/export', '_blank');
+            window.open('${this.link('admin.config.export', '/admin/api/config/export')}', '_blank');
         }
     </script>
 </body>
 </html>`;
   }
 
-  generateLoginPage(): string {
+  // The plugin has no login route of its own; the app handles POST `loginUrl` and sets the session
+  generateLoginPage(loginUrl: string = `${this.link('admin', '/admin').replace(/\/$/, '')}/login`): string {
     return `
 <!DOCTYPE html>
 <html lang="en">
@@ -583,14 +611,14 @@ export class AdminPanel {
             const username = document.getElementById('username').value;
             const password = document.getElementById('password').value;
             
-            fetch('/admin/login', {
+            fetch(${JSON.stringify(loginUrl)}, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ username, password })
             })
             .then(response => {
                 if (response.ok) {
-                    window.location.href = '/admin';
+                    window.location.href = ${JSON.stringify(this.link('admin', '/admin'))};
                 } else {
                     document.getElementById('error').textContent = 'Invalid credentials';
                     document.getElementById('error').style.display = 'block';
@@ -601,4 +629,53 @@ export class AdminPanel {
 </body>
 </html>`;
   }
-}
\ No newline at end of file
+}
+
+export interface AdminPluginOptions {
+  path?: string;
+  guard?: RequestHook; // runs before every admin route, e.g. to require an admin session
+}
+
+/**
+ * Serves the admin panel under `path`. The guard hook stays inside the plugin's scope.
+ */
+export const adminPlugin = definePlugin<AdminPluginOptions>((app, options) => {
+  const path = options.path ?? '/admin';
+  const admin = AdminPanel.getInstance();
+  const devTools = DevTools.getInstance();
+
+  admin.enable();
+  admin.setRouter(app);
+
+  if (options.guard) {
+    app.addHook('preHandler', options.guard);
+  }
+
+  app.get(path, { name: 'admin' }, (req, res) => {
+    res.html(admin.generateMainPage());
+  });
+  app.get(`${path}/dashboard`, { name: 'admin.dashboard' }, (req, res) => {
+    res.html(Dashboard.generateHTML(app.url('dev.metrics.stream')));
+  });
+  app.get(`${path}/routes`, { name: 'admin.routes' }, (req, res) => {
+    res.html(devTools.generateRouteListHTML());
+  });
+  app.get(`${path}/config`, { name: 'admin.config' }, (req, res) => {
+    res.html(admin.generateConfigPage());
+  });
+  app.get(`${path}/api/config/export`, { name: 'admin.config.export' }, (req, res) => {
+    res.json(ConfigManager.getInstance().getAll());
+  });
+  app.post(`${path}/api/config/reload`, { name: 'admin.config.reload' }, (req, res) => {
+    ConfigManager.getInstance().reload();
+    res.json({ success: true });
+  });
+  app.post(`${path}/api/cache/clear`, { name: 'admin.cache.clear' }, (req, res) => {
+    globalCache.clear();
+    res.json({ success: true });
+  });
+  app.post(`${path}/api/assets/refresh`, { name: 'admin.assets.refresh' }, (req, res) => {
+    AssetVersioning.getInstance().clearCache();
+    res.json({ success: true });
+  });
+}, { name: 'efw-admin', dependencies: ['efw-monitor', 'efw-devtools'] });
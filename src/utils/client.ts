@@ -129,6 +129,8 @@ export class ApiClient {
     const maxAttempts = (processedOptions.retries || 0) + 1;
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      processedOptions.signal?.throwIfAborted();
+
       try {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), processedOptions.timeout);
@@ -194,6 +196,11 @@ export class ApiClient {
         return await this.applyResponseInterceptors(clientResponse);
 
       } catch (error) {
+        // Aborted by the caller (e.g. req.signal): rethrow its reason and don't retry
+        if (processedOptions.signal?.aborted) {
+          throw processedOptions.signal.reason;
+        }
+
         const clientError = error as ClientError;
         clientError.request = processedOptions;
 
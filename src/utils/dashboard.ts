@@ -21,7 +21,11 @@ export class Dashboard {
     return `${seconds}s`;
   }
 
-  static generateHTML(): string {
+  /**
+   * Renders the current metrics; the page then follows `streamUrl` (the monitor plugin's
+   * metrics stream) with EventSource instead of reloading itself.
+   */
+  static generateHTML(streamUrl: string = '/dev/metrics/stream'): string {
     const monitor = Monitor.getInstance();
     const metrics = monitor.export();
     const { system, requests, summary } = metrics;
@@ -59,17 +63,6 @@ export class Dashboard {
         .status-error { color: #dc2626; }
         .progress-bar { width: 100%; height: 8px; background: #e5e7eb; border-radius: 4px; overflow: hidden; }
         .progress-fill { height: 100%; background: #2563eb; transition: width 0.3s ease; }
-        .refresh-btn { 
-            background: #2563eb; 
-            color: white; 
-            border: none; 
-            padding: 10px 20px; 
-            border-radius: 6px; 
-            cursor: pointer; 
-            font-size: 0.9rem;
-            margin-top: 10px;
-        }
-        .refresh-btn:hover { background: #1d4ed8; }
     </style>
 </head>
 <body>
@@ -84,19 +77,19 @@ export class Dashboard {
                 <h2 class="card-title">System Overview</h2>
                 <div class="metric">
                     <span class="metric-label">Uptime</span>
-                    <span class="metric-value">${this.formatDuration(system.uptime)}</span>
+                    <span class="metric-value" data-metric="uptime">${this.formatDuration(system.uptime)}</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">Total Requests</span>
-                    <span class="metric-value">${summary.totalRequests.toLocaleString()}</span>
+                    <span class="metric-value" data-metric="totalRequests">${summary.totalRequests.toLocaleString()}</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">Error Rate</span>
-                    <span class="metric-value ${summary.errorRate > 5 ? 'status-error' : summary.errorRate > 1 ? 'status-warning' : 'status-ok'}">${summary.errorRate.toFixed(2)}%</span>
+                    <span data-metric="errorRate" class="metric-value ${summary.errorRate > 5 ? 'status-error' : summary.errorRate > 1 ? 'status-warning' : 'status-ok'}">${summary.errorRate.toFixed(2)}%</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">Avg Response Time</span>
-                    <span class="metric-value">${system.averageResponseTime.toFixed(2)}ms</span>
+                    <span class="metric-value" data-metric="averageResponseTime">${system.averageResponseTime.toFixed(2)}ms</span>
                 </div>
             </div>
 
@@ -104,22 +97,22 @@ export class Dashboard {
                 <h2 class="card-title">Memory Usage</h2>
                 <div class="metric">
                     <span class="metric-label">RSS</span>
-                    <span class="metric-value">${this.formatBytes(system.memoryUsage.rss)}</span>
+                    <span class="metric-value" data-metric="rss">${this.formatBytes(system.memoryUsage.rss)}</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">Heap Used</span>
-                    <span class="metric-value">${this.formatBytes(system.memoryUsage.heapUsed)}</span>
+                    <span class="metric-value" data-metric="heapUsed">${this.formatBytes(system.memoryUsage.heapUsed)}</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">Heap Total</span>
-                    <span class="metric-value">${this.formatBytes(system.memoryUsage.heapTotal)}</span>
+                    <span class="metric-value" data-metric="heapTotal">${this.formatBytes(system.memoryUsage.heapTotal)}</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">External</span>
-                    <span class="metric-value">${this.formatBytes(system.memoryUsage.external)}</span>
+                    <span class="metric-value" data-metric="external">${this.formatBytes(system.memoryUsage.external)}</span>
                 </div>
                 <div class="progress-bar">
-                    <div class="progress-fill" style="width: ${(system.memoryUsage.heapUsed / system.memoryUsage.heapTotal) * 100}%"></div>
+                    <div class="progress-fill" data-metric="heapRatio" style="width: ${(system.memoryUsage.heapUsed / system.memoryUsage.heapTotal) * 100}%"></div>
                 </div>
             </div>
 
@@ -127,11 +120,11 @@ export class Dashboard {
                 <h2 class="card-title">CPU Usage</h2>
                 <div class="metric">
                     <span class="metric-label">User</span>
-                    <span class="metric-value">${(system.cpuUsage.user / 1000).toFixed(2)}ms</span>
+                    <span class="metric-value" data-metric="cpuUser">${(system.cpuUsage.user / 1000).toFixed(2)}ms</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">System</span>
-                    <span class="metric-value">${(system.cpuUsage.system / 1000).toFixed(2)}ms</span>
+                    <span class="metric-value" data-metric="cpuSystem">${(system.cpuUsage.system / 1000).toFixed(2)}ms</span>
                 </div>
             </div>
         </div>
@@ -150,7 +143,7 @@ export class Dashboard {
                         <th>Last Accessed</th>
                     </tr>
                 </thead>
-                <tbody>
+                <tbody id="request-metrics">
                     ${requests.map(req => `
                         <tr>
                             <td>${req.path}</td>
@@ -164,15 +157,60 @@ export class Dashboard {
                     `).join('')}
                 </tbody>
             </table>
-            <button class="refresh-btn" onclick="window.location.reload()">Refresh Data</button>
         </div>
     </div>
 
     <script>
-        // Auto-refresh every 30 seconds
-        setTimeout(() => {
-            window.location.reload();
-        }, 30000);
+        const formatBytes = (bytes) => {
+            if (bytes === 0) return '0 Bytes';
+            const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+            const i = Math.floor(Math.log(bytes) / Math.log(1024));
+            return parseFloat((bytes / Math.pow(1024, i)).toFixed(2)) + ' ' + sizes[i];
+        };
+        const formatDuration = (ms) => {
+            const seconds = Math.floor(ms / 1000);
+            const minutes = Math.floor(seconds / 60);
+            const hours = Math.floor(minutes / 60);
+            const days = Math.floor(hours / 24);
+            if (days > 0) return days + 'd ' + (hours % 24) + 'h ' + (minutes % 60) + 'm';
+            if (hours > 0) return hours + 'h ' + (minutes % 60) + 'm ' + (seconds % 60) + 's';
+            if (minutes > 0) return minutes + 'm ' + (seconds % 60) + 's';
+            return seconds + 's';
+        };
+        const setMetric = (name, text) => {
+            document.querySelector('[data-metric="' + name + '"]').textContent = text;
+        };
+
+        function render({ system, requests, summary }) {
+            const { memoryUsage, cpuUsage } = system;
+            setMetric('uptime', formatDuration(system.uptime));
+            setMetric('totalRequests', summary.totalRequests.toLocaleString());
+            setMetric('errorRate', summary.errorRate.toFixed(2) + '%');
+            document.querySelector('[data-metric="errorRate"]').className = 'metric-value ' +
+                (summary.errorRate > 5 ? 'status-error' : summary.errorRate > 1 ? 'status-warning' : 'status-ok');
+            setMetric('averageResponseTime', system.averageResponseTime.toFixed(2) + 'ms');
+            ['rss', 'heapUsed', 'heapTotal', 'external'].forEach(key => setMetric(key, formatBytes(memoryUsage[key])));
+            document.querySelector('[data-metric="heapRatio"]').style.width = (memoryUsage.heapUsed / memoryUsage.heapTotal) * 100 + '%';
+            setMetric('cpuUser', (cpuUsage.user / 1000).toFixed(2) + 'ms');
+            setMetric('cpuSystem', (cpuUsage.system / 1000).toFixed(2) + 'ms');
+
+            const rows = requests.map(req => {
+                const row = document.createElement('tr');
+                [req.path, req.method, req.count.toLocaleString(), req.averageTime.toFixed(2) + 'ms',
+                 req.minTime.toFixed(2) + 'ms', req.maxTime.toFixed(2) + 'ms', new Date(req.lastAccessed).toLocaleString()]
+                    .forEach(value => row.appendChild(document.createElement('td')).textContent = value);
+                const method = document.createElement('span');
+                method.style.cssText = 'background: #e0e7ff; color: #3730a3; padding: 2px 6px; border-radius: 4px; font-size: 0.8rem;';
+                method.textContent = req.method;
+                row.children[1].replaceChildren(method);
+                return row;
+            });
+            document.getElementById('request-metrics').replaceChildren(...rows);
+        }
+
+        // The server pushes fresh metrics; EventSource reconnects on its own if the stream drops
+        const metrics = new EventSource(${JSON.stringify(streamUrl)});
+        metrics.addEventListener('metrics', (event) => render(JSON.parse(event.data)));
     </script>
 </body>
 </html>`;
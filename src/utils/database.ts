@@ -1,4 +1,5 @@
 import mysql from 'mysql2/promise';
+import type { Connection as CallbackConnection } from 'mysql2';
 
 export interface DatabaseConfig {
   host: string;
@@ -9,6 +10,10 @@ export interface DatabaseConfig {
   connectionLimit?: number;
 }
 
+export interface QueryOptions {
+  signal?: AbortSignal; // e.g. req.signal; aborting kills the running query
+}
+
 export interface Project {
   id: number;
   title: string;
@@ -105,16 +110,75 @@ export class Database {
     return Database.instance;
   }
 
-  public async query<T = any>(sql: string, params?: any[]): Promise<T[]> {
+  public async query<T = any>(sql: string, params?: any[], options: QueryOptions = {}): Promise<T[]> {
+    const { signal } = options;
+
     try {
-      const [rows] = await this.pool.execute(sql, params);
-      return rows as T[];
+      if (!signal) {
+        const [rows] = await this.pool.execute(sql, params);
+        return rows as T[];
+      }
+
+      signal.throwIfAborted();
+      const connection = await this.pool.getConnection();
+      const release = this.killOnAbort(connection, signal);
+      try {
+        signal.throwIfAborted();
+        const [rows] = await connection.execute(sql, params);
+        return rows as T[];
+      } finally {
+        release();
+      }
     } catch (error) {
+      // The caller gave up on the result, so the abort reason is what it expects back
+      if (signal?.aborted) throw signal.reason;
       console.error('Database query error:', error);
       throw error;
     }
   }
 
+  /**
+   * Streams result rows one at a time instead of buffering the whole result set,
+   * e.g. for `res.stream()` exports of large tables.
+   */
+  public async *stream<T = any>(sql: string, params?: any[], options: QueryOptions = {}): AsyncGenerator<T> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+    const connection = await this.pool.getConnection();
+    const release = signal ? this.killOnAbort(connection, signal) : () => connection.release();
+
+    try {
+      // The promise wrapper exposes the underlying callback connection, which supports row streams
+      const core = connection.connection as unknown as CallbackConnection;
+      const rows = core.query(sql, params).stream();
+      for await (const row of rows) {
+        yield row as T;
+      }
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      console.error('Database stream error:', error);
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
+  // Kills the connection's running query when `signal` aborts; the returned function stops
+  // listening and hands the connection back to the pool
+  private killOnAbort(connection: mysql.PoolConnection, signal: AbortSignal): () => void {
+    const kill = (): void => {
+      this.pool.query(`KILL QUERY ${connection.threadId}`).catch((error) => {
+        console.error('Database kill query error:', error);
+      });
+    };
+    signal.addEventListener('abort', kill, { once: true });
+
+    return () => {
+      signal.removeEventListener('abort', kill);
+      connection.release();
+    };
+  }
+
   public async getConnection() {
     return await this.pool.getConnection();
   }
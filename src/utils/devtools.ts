@@ -1,5 +1,7 @@
 import type { EfwRequest, EfwResponse } from '../types';
-import { Router } from '../router';
+import type { Router } from '../router';
+import { definePlugin } from '../plugin';
+import { getRequestContext } from '../context';
 
 export interface RouteInfo {
   method: string;
@@ -21,8 +23,9 @@ export interface EfwInfo {
 
 export class DevTools {
   private static instance: DevTools;
-  private router?: Router;
+  private router?: Pick<Router, 'getRoutes' | 'url'>;
   private requestLogs: Array<{
+    requestId?: string; // matches the requestId on Logger entries for the same request
     timestamp: Date;
     method: string;
     path: string;
@@ -42,12 +45,22 @@ export class DevTools {
     return DevTools.instance;
   }
 
-  setRouter(router: Router): void {
+  setRouter(router: Pick<Router, 'getRoutes' | 'url'>): void {
     this.router = router;
   }
 
+  // Links to other built-in pages by route name, so they follow the path the plugins were mounted at
+  private link(name: string, fallback: string): string {
+    try {
+      return this.router?.url(name) ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
   logRequest(req: EfwRequest): void {
     this.requestLogs.push({
+      requestId: getRequestContext()?.requestId ?? req.requestId,
       timestamp: new Date(),
       method: req.method,
       path: req.path,
@@ -70,7 +83,7 @@ export class DevTools {
     }
 
     const routes: RouteInfo[] = [];
-    const routerRoutes = (this.router as any).routes || [];
+    const routerRoutes: any[] = this.router.getRoutes();
 
     for (const route of routerRoutes) {
       routes.push({
@@ -111,6 +124,10 @@ export class DevTools {
     return this.requestLogs;
   }
 
+  findRequestLog(requestId: string) {
+    return this.requestLogs.find(log => log.requestId === requestId);
+  }
+
   generateRouteListHTML(): string {
     const routes = this.getRoutes();
     
@@ -176,7 +193,7 @@ export class DevTools {
         <div class="header">
             <h1 class="title">API Routes</h1>
             <p class="subtitle">All registered routes in your application</p>
-            <a href="/dev/dashboard" class="back-link">← Back to Dashboard</a>
+            <a href="${this.link('dev.dashboard', '/dev/dashboard')}" class="back-link">← Back to Dashboard</a>
         </div>
 
         <div class="card">
@@ -254,7 +271,7 @@ export class DevTools {
         <div class="header">
             <h1 class="title">EFW Information</h1>
             <p class="subtitle">System status and configuration details</p>
-            <a href="/dev/dashboard" class="back-link">← Back to Dashboard</a>
+            <a href="${this.link('dev.dashboard', '/dev/dashboard')}" class="back-link">← Back to Dashboard</a>
         </div>
 
         <div class="grid">
@@ -426,7 +443,7 @@ export class DevTools {
             <h1 class="title">Request Inspector</h1>
             <p class="subtitle">Debug incoming requests (last 100 requests)</p>
             <div>
-                <a href="/dev/dashboard" class="back-link">← Back to Dashboard</a>
+                <a href="${this.link('dev.dashboard', '/dev/dashboard')}" class="back-link">← Back to Dashboard</a>
                 <button class="clear-btn" onclick="clearLogs()">Clear Logs</button>
             </div>
         </div>
@@ -446,6 +463,7 @@ export class DevTools {
                     <div class="detail-section">
                         <div class="detail-title">Client Info</div>
                         <div class="detail-content">
+Request ID: ${log.requestId ?? 'n/a'}
 IP: ${log.ip}
 User-Agent: ${log.userAgent}
                         </div>
@@ -474,7 +492,7 @@ User-Agent: ${log.userAgent}
     <script>
         function clearLogs() {
             if (confirm('Are you sure you want to clear all request logs?')) {
-                fetch('/dev/inspector/clear', { method: 'POST' })
+                fetch('${this.link('dev.inspector.clear', '/dev/inspector/clear')}', { method: 'POST' })
                     .then(() => window.location.reload());
             }
         }
@@ -565,7 +583,7 @@ User-Agent: ${log.userAgent}
         <div class="header">
             <h1 class="title">API Tester</h1>
             <p class="subtitle">Test your API endpoints directly from the browser</p>
-            <a href="/dev/dashboard" class="back-link">← Back to Dashboard</a>
+            <a href="${this.link('dev.dashboard', '/dev/dashboard')}" class="back-link">← Back to Dashboard</a>
         </div>
 
         <div class="grid">
@@ -705,4 +723,36 @@ export function createRequestInspectorMiddleware() {
     devTools.logRequest(req);
     await next();
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Logs routed requests for the inspector and serves the developer pages under `path`.
+ */
+export const devToolsPlugin = definePlugin<{ path?: string }>((app, options) => {
+  const path = options.path ?? '/dev';
+  const devTools = DevTools.getInstance();
+
+  devTools.setRouter(app);
+  app.addHook('preHandler', (req) => {
+    if (!req.path.startsWith(path)) {
+      devTools.logRequest(req);
+    }
+  });
+
+  app.get(`${path}/routes`, { name: 'dev.routes' }, (req, res) => {
+    res.html(devTools.generateRouteListHTML());
+  });
+  app.get(`${path}/info`, { name: 'dev.info' }, (req, res) => {
+    res.html(devTools.generateEfwInfoHTML());
+  });
+  app.get(`${path}/inspector`, { name: 'dev.inspector' }, (req, res) => {
+    res.html(devTools.generateRequestInspectorHTML());
+  });
+  app.post(`${path}/inspector/clear`, { name: 'dev.inspector.clear' }, (req, res) => {
+    devTools.clearRequestLogs();
+    res.json({ success: true });
+  });
+  app.get(`${path}/api-tester`, { name: 'dev.api-tester' }, (req, res) => {
+    res.html(devTools.generateApiTesterHTML());
+  });
+}, { name: 'efw-devtools', encapsulate: false });
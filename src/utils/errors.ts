@@ -84,6 +84,16 @@ export class ExternalServiceError extends EfwError {
   }
 }
 
+export class TimeoutError extends EfwError {
+  public timeout?: number;
+
+  constructor(message: string = 'Request timed out', timeout?: number) {
+    super(message, 503);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
 export interface ErrorResponse {
   error: {
     name: string;
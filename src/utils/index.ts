@@ -5,15 +5,17 @@ export { UUIDGenerator } from './uuid';
 export { PasswordHasher } from './password';
 
 // Monitoring & Analytics
-export { Monitor, createMonitoringMiddleware } from './monitor';
+export { Monitor, createMonitoringMiddleware, createMonitoringHook, createMetricsStreamHandler, monitorPlugin } from './monitor';
 export { Dashboard } from './dashboard';
 
 // Developer Tools
-export { DevTools, createRequestInspectorMiddleware } from './devtools';
+export { DevTools, createRequestInspectorMiddleware, devToolsPlugin } from './devtools';
 
 // Data Helpers
 export { InMemoryCache, globalCache, cache, memoize } from './cache';
 export { CookieHelper } from './cookies';
+export { SseStream } from './sse';
+export { parseMultipart } from './multipart';
 export { QueryStringParser } from './querystring';
 export { 
   ResponseBuilder, 
@@ -37,7 +39,7 @@ export {
 export { AssetVersioning } from './assets';
 export { ApiClient, apiClient, createClient, isClientError } from './client';
 export { ErrorPages } from './errorpages';
-export { AdminPanel } from './admin';
+export { AdminPanel, adminPlugin } from './admin';
 
 // Type exports
 export type { 
@@ -52,6 +54,7 @@ export type {
 
 export type { 
   RequestMetrics, 
+  RequestError,
   SystemMetrics 
 } from './monitor';
 
@@ -60,6 +63,16 @@ export type {
   EfwInfo 
 } from './devtools';
 
+export type { 
+  SseOptions 
+} from './sse';
+
+export type { 
+  MultipartOptions, 
+  UploadedFile, 
+  MultipartResult 
+} from './multipart';
+
 export type { 
   ParseOptions, 
   StringifyOptions 
@@ -89,4 +102,8 @@ export type {
 export type {
   ConfigOptions,
   HashOptions
-} from './config';
\ No newline at end of file
+} from './config';
+
+export type {
+  AdminPluginOptions
+} from './admin';
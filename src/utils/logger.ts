@@ -1,3 +1,5 @@
+import { getRequestContext } from '../context';
+
 export enum LogLevel {
   DEBUG = 0,
   INFO = 1,
@@ -39,6 +41,7 @@ export interface LogTransport {
   name: string;
   level?: LogLevel;
   write(entry: LogEntry): Promise<void>;
+  close?(): Promise<void>;
 }
 
 export class ConsoleTransport implements LogTransport {
@@ -59,8 +62,9 @@ export class ConsoleTransport implements LogTransport {
     const timestamp = entry.timestamp;
     const message = entry.message;
     const meta = entry.meta ? ` ${JSON.stringify(entry.meta)}` : '';
+    const requestId = entry.requestId ? ` (${entry.requestId})` : '';
     
-    console.log(`${color}[${timestamp}] ${levelName}: ${message}${meta}${reset}`);
+    console.log(`${color}[${timestamp}] ${levelName}${requestId}: ${message}${meta}${reset}`);
   }
 
   private getColor(level: LogLevel): string {
@@ -150,6 +154,7 @@ export class Logger {
   private requestId: boolean;
   private transports: LogTransport[];
   private requestIdCounter = 0;
+  private pendingWrites = new Set<Promise<void>>();
 
   constructor(options: LoggerOptions = {}) {
     this.level = options.level ?? LogLevel.INFO;
@@ -169,13 +174,37 @@ export class Logger {
       meta
     };
 
+    // Entries written while handling a request carry its id without it being passed down
+    const requestId = getRequestContext()?.requestId;
+    if (requestId) {
+      entry.requestId = requestId;
+    }
+
+    const write = this.writeEntry(entry);
+    this.pendingWrites.add(write);
+    try {
+      await write;
+    } finally {
+      this.pendingWrites.delete(write);
+    }
+  }
+
+  private async writeEntry(entry: LogEntry): Promise<void> {
     for (const transport of this.transports) {
-      if (!transport.level || level >= transport.level) {
+      if (!transport.level || entry.level >= transport.level) {
         await transport.write(entry);
       }
     }
   }
 
+  /**
+   * Waits for pending log writes, then closes transports that hold resources.
+   */
+  public async close(): Promise<void> {
+    await Promise.allSettled(this.pendingWrites);
+    await Promise.all(this.transports.map(transport => transport.close?.()));
+  }
+
   public debug(message: string, meta?: Record<string, any>): Promise<void> {
     return this.log(LogLevel.DEBUG, message, meta);
   }
@@ -203,7 +232,8 @@ export class Logger {
   public requestLogger() {
     return (req: any, res: any, next: any) => {
       const startTime = Date.now();
-      const requestId = this.generateRequestId();
+      // Reuse the framework's id so these lines match entries logged deeper in the request
+      const requestId = getRequestContext()?.requestId || this.generateRequestId();
       
       req.requestId = requestId;
       req.logger = this;
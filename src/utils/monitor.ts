@@ -1,4 +1,7 @@
-import type { EfwRequest, EfwResponse } from '../types';
+import type { EfwRequest, EfwResponse, OnResponseHook } from '../types';
+import { definePlugin } from '../plugin';
+import { getRequestContext } from '../context';
+import { Dashboard } from './dashboard';
 
 export interface RequestMetrics {
   path: string;
@@ -12,6 +15,15 @@ export interface RequestMetrics {
   statusCodes: Record<number, number>;
 }
 
+export interface RequestError {
+  requestId?: string; // matches the requestId on Logger entries and DevTools request logs
+  method: string;
+  path: string;
+  statusCode: number;
+  responseTime: number;
+  timestamp: Date;
+}
+
 export interface SystemMetrics {
   uptime: number;
   memoryUsage: NodeJS.MemoryUsage;
@@ -24,6 +36,7 @@ export interface SystemMetrics {
 export class Monitor {
   private static instance: Monitor;
   private requestMetrics = new Map<string, RequestMetrics>();
+  private recentErrors: RequestError[] = [];
   private startTime = Date.now();
   private totalRequests = 0;
   private totalErrors = 0;
@@ -48,6 +61,19 @@ export class Monitor {
     
     if (statusCode >= 400) {
       this.totalErrors++;
+      this.recentErrors.push({
+        requestId: getRequestContext()?.requestId ?? req.requestId,
+        method: req.method,
+        path: req.path,
+        statusCode,
+        responseTime,
+        timestamp: new Date()
+      });
+
+      // Keep only the last 50 failed requests
+      if (this.recentErrors.length > 50) {
+        this.recentErrors.shift();
+      }
     }
 
     let metrics = this.requestMetrics.get(key);
@@ -100,12 +126,17 @@ export class Monitor {
       .slice(0, limit);
   }
 
+  getRecentErrors(): RequestError[] {
+    return [...this.recentErrors];
+  }
+
   getErrorRate(): number {
     return this.totalRequests > 0 ? (this.totalErrors / this.totalRequests) * 100 : 0;
   }
 
   reset(): void {
     this.requestMetrics.clear();
+    this.recentErrors = [];
     this.startTime = Date.now();
     this.totalRequests = 0;
     this.totalErrors = 0;
@@ -115,6 +146,7 @@ export class Monitor {
 
   export(): {
     requests: RequestMetrics[];
+    recentErrors: RequestError[];
     system: SystemMetrics;
     summary: {
       totalRequests: number;
@@ -125,6 +157,7 @@ export class Monitor {
   } {
     return {
       requests: this.getRequestMetrics(),
+      recentErrors: this.getRecentErrors(),
       system: this.getSystemMetrics(),
       summary: {
         totalRequests: this.totalRequests,
@@ -147,4 +180,46 @@ export function createMonitoringMiddleware() {
     const responseTime = Date.now() - startTime;
     monitor.trackRequest(req, res, responseTime);
   };
-}
\ No newline at end of file
+}
+
+/**
+ * onResponse hook that records every request, including 404s and errors: `app.addHook('onResponse', createMonitoringHook())`.
+ */
+export function createMonitoringHook(): OnResponseHook {
+  const monitor = Monitor.getInstance();
+
+  return (req, res, responseTime) => {
+    monitor.trackRequest(req, res, responseTime);
+  };
+}
+
+export function createMetricsStreamHandler(interval: number = 2000) {
+  const monitor = Monitor.getInstance();
+
+  return (req: EfwRequest, res: EfwResponse) => {
+    const stream = res.sse();
+    const push = () => stream.send('metrics', monitor.export(), Date.now());
+
+    push();
+    const timer = setInterval(push, interval);
+    stream.onClose(() => clearInterval(timer));
+  };
+}
+
+/**
+ * Tracks every request and serves the dashboard, metrics JSON and live metrics stream under `path`.
+ */
+export const monitorPlugin = definePlugin<{ path?: string }>((app, options) => {
+  const path = options.path ?? '/dev';
+  const monitor = Monitor.getInstance();
+
+  app.addHook('onResponse', createMonitoringHook());
+
+  app.get(`${path}/dashboard`, { name: 'dev.dashboard' }, (req, res) => {
+    res.html(Dashboard.generateHTML(app.url('dev.metrics.stream')));
+  });
+  app.get(`${path}/metrics`, { name: 'dev.metrics' }, (req, res) => {
+    res.json(monitor.export());
+  });
+  app.get(`${path}/metrics/stream`, { name: 'dev.metrics.stream' }, createMetricsStreamHandler());
+}, { name: 'efw-monitor', encapsulate: false });
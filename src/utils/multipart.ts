@@ -0,0 +1,307 @@
+import { randomUUID } from 'crypto';
+import { mkdir, unlink } from 'fs/promises';
+import { join } from 'path';
+import { EfwError } from './errors';
+
+export interface MultipartOptions {
+  maxFiles?: number;
+  maxFileSize?: number; // in bytes, per file
+  maxFields?: number;
+  maxFieldSize?: number; // in bytes, per field value
+  allowedMimeTypes?: string[]; // e.g. ['image/*', 'application/pdf']
+  tempDir?: string; // stream files to disk instead of keeping them in memory; removed after the request
+}
+
+export interface UploadedFile {
+  fieldName: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  data?: Uint8Array; // set for in-memory uploads
+  path?: string; // set when `tempDir` is configured; move the file to keep it past the request
+}
+
+export interface MultipartResult {
+  fields: Record<string, string | string[]>;
+  files: Record<string, UploadedFile[]>;
+}
+
+interface PartHeaders {
+  name: string;
+  filename?: string;
+  mimeType: string;
+}
+
+type ParserState = 'preamble' | 'delimiter' | 'headers' | 'body' | 'done';
+
+interface ActivePart {
+  write(chunk: Buffer): Promise<void>;
+  finish(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+const HEADER_END = Buffer.from('\r\n\r\n');
+const MAX_HEADER_SIZE = 16 * 1024;
+
+const DEFAULT_OPTIONS = {
+  maxFiles: 10,
+  maxFileSize: 10 * 1024 * 1024,
+  maxFields: 100,
+  maxFieldSize: 1024 * 1024
+};
+
+export function getBoundary(contentType: string): string | null {
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  return match ? (match[1] ?? match[2]!).trim() : null;
+}
+
+function matchesMimeType(mimeType: string, allowed: string[]): boolean {
+  return allowed.some(pattern =>
+    pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : mimeType === pattern
+  );
+}
+
+function parsePartHeaders(raw: string): PartHeaders {
+  let disposition = '';
+  let mimeType: string | undefined;
+
+  for (const line of raw.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'content-disposition') {
+      disposition = value;
+    } else if (key === 'content-type') {
+      mimeType = value.split(';')[0]!.trim().toLowerCase();
+    }
+  }
+
+  const name = disposition.match(/\bname="([^"]*)"/i)?.[1] ?? disposition.match(/\bname=([^;\s]+)/i)?.[1];
+  if (name === undefined) {
+    throw new EfwError('Malformed multipart body: part is missing a field name', 400);
+  }
+
+  const filename = disposition.match(/\bfilename="([^"]*)"/i)?.[1] ?? disposition.match(/\bfilename=([^;\s]+)/i)?.[1];
+
+  return {
+    name,
+    filename,
+    mimeType: mimeType ?? (filename !== undefined ? 'application/octet-stream' : 'text/plain')
+  };
+}
+
+function appendValue<T>(target: Record<string, T | T[]>, key: string, value: T): void {
+  const existing = target[key];
+  if (existing === undefined) {
+    target[key] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    target[key] = [existing, value];
+  }
+}
+
+/**
+ * Parses a multipart/form-data body incrementally, so limits are enforced while
+ * the upload is still arriving and files can be streamed to disk.
+ */
+export async function parseMultipart(
+  body: ReadableStream<Uint8Array> | null,
+  contentType: string,
+  options: MultipartOptions = {}
+): Promise<MultipartResult> {
+  const boundary = getBoundary(contentType);
+  if (!boundary || !body) {
+    throw new EfwError('Malformed multipart body: missing boundary or body', 400);
+  }
+
+  const limits = { ...DEFAULT_OPTIONS, ...options };
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const fields: Record<string, string | string[]> = {};
+  const files: Record<string, UploadedFile[]> = {};
+  const writtenPaths: string[] = [];
+
+  let fieldCount = 0;
+  let fileCount = 0;
+  let state = 'preamble' as ParserState;
+  let part: ActivePart | undefined;
+  // A leading CRLF lets the first boundary match the same delimiter as the others
+  let buffer = Buffer.from('\r\n');
+
+  const startField = (headers: PartHeaders): ActivePart => {
+    if (++fieldCount > limits.maxFields) {
+      throw new EfwError(`Too many fields (limit ${limits.maxFields})`, 413);
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    return {
+      async write(chunk) {
+        size += chunk.length;
+        if (size > limits.maxFieldSize) {
+          throw new EfwError(`Field "${headers.name}" exceeds the ${limits.maxFieldSize} byte limit`, 413);
+        }
+        chunks.push(chunk);
+      },
+      async finish() {
+        appendValue(fields, headers.name, Buffer.concat(chunks).toString('utf8'));
+      },
+      async abort() {}
+    };
+  };
+
+  const startFile = async (headers: PartHeaders): Promise<ActivePart> => {
+    // Browsers send an empty part when a file input is left blank
+    if (headers.filename === '') {
+      return { async write() {}, async finish() {}, async abort() {} };
+    }
+
+    if (++fileCount > limits.maxFiles) {
+      throw new EfwError(`Too many files (limit ${limits.maxFiles})`, 413);
+    }
+
+    if (limits.allowedMimeTypes && !matchesMimeType(headers.mimeType, limits.allowedMimeTypes)) {
+      throw new EfwError(`File type "${headers.mimeType}" is not allowed`, 415);
+    }
+
+    const file: UploadedFile = {
+      fieldName: headers.name,
+      filename: headers.filename!,
+      mimeType: headers.mimeType,
+      size: 0
+    };
+
+    const chunks: Buffer[] = [];
+    let writer: ReturnType<ReturnType<typeof Bun.file>['writer']> | undefined;
+
+    if (limits.tempDir) {
+      await mkdir(limits.tempDir, { recursive: true });
+      file.path = join(limits.tempDir, randomUUID());
+      writtenPaths.push(file.path);
+      writer = Bun.file(file.path).writer();
+    }
+
+    return {
+      async write(chunk) {
+        file.size += chunk.length;
+        if (file.size > limits.maxFileSize) {
+          throw new EfwError(`File "${file.filename}" exceeds the ${limits.maxFileSize} byte limit`, 413);
+        }
+
+        if (writer) {
+          writer.write(chunk);
+          await writer.flush();
+        } else {
+          chunks.push(chunk);
+        }
+      },
+      async finish() {
+        if (writer) {
+          await writer.end();
+        } else {
+          file.data = new Uint8Array(Buffer.concat(chunks));
+        }
+        (files[headers.name] ??= []).push(file);
+      },
+      async abort() {
+        if (writer) {
+          await writer.end();
+        }
+      }
+    };
+  };
+
+  const consume = async (): Promise<void> => {
+    while (true) {
+      if (state === 'preamble') {
+        const index = buffer.indexOf(delimiter);
+        if (index === -1) {
+          buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length));
+          return;
+        }
+        buffer = buffer.subarray(index + delimiter.length);
+        state = 'delimiter';
+      }
+
+      if (state === 'delimiter') {
+        if (buffer.length < 2) return;
+
+        if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+          state = 'done';
+          return;
+        }
+        if (buffer[0] !== 0x0d || buffer[1] !== 0x0a) {
+          throw new EfwError('Malformed multipart body: invalid boundary line', 400);
+        }
+        buffer = buffer.subarray(2);
+        state = 'headers';
+      }
+
+      if (state === 'headers') {
+        const index = buffer.indexOf(HEADER_END);
+        if (index === -1) {
+          if (buffer.length > MAX_HEADER_SIZE) {
+            throw new EfwError('Malformed multipart body: part headers too large', 400);
+          }
+          return;
+        }
+
+        const headers = parsePartHeaders(buffer.subarray(0, index).toString('utf8'));
+        buffer = buffer.subarray(index + HEADER_END.length);
+        part = headers.filename !== undefined ? await startFile(headers) : startField(headers);
+        state = 'body';
+      }
+
+      if (state === 'body') {
+        const index = buffer.indexOf(delimiter);
+        if (index === -1) {
+          // Hold back enough bytes to catch a delimiter split across chunks
+          const safeLength = buffer.length - (delimiter.length - 1);
+          if (safeLength > 0) {
+            await part!.write(buffer.subarray(0, safeLength));
+            buffer = buffer.subarray(safeLength);
+          }
+          return;
+        }
+
+        await part!.write(buffer.subarray(0, index));
+        await part!.finish();
+        part = undefined;
+        buffer = buffer.subarray(index + delimiter.length);
+        state = 'delimiter';
+      }
+
+      if (state === 'done') return;
+    }
+  };
+
+  try {
+    for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+      buffer = Buffer.concat([buffer, chunk]);
+      await consume();
+      if (state === 'done') break;
+    }
+
+    if (state !== 'done') {
+      throw new EfwError('Malformed multipart body: unexpected end of input', 400);
+    }
+
+    return { fields, files };
+  } catch (error) {
+    await part?.abort();
+    await removeTempFiles(writtenPaths);
+    throw error;
+  }
+}
+
+/**
+ * Deletes temp files that are still where the parser wrote them. The framework calls this once the
+ * request has finished, so a handler that wants to keep an upload must move it (e.g. `rename()`).
+ */
+export async function removeTempFiles(paths: string[]): Promise<void> {
+  await Promise.all(paths.map(path => unlink(path).catch(() => {})));
+}
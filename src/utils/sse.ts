@@ -0,0 +1,99 @@
+import type { EfwResponse } from '../types';
+
+export interface SseOptions {
+  keepAlive?: number; // Comment interval in milliseconds, 0 disables it
+  retry?: number; // Reconnection delay suggested to the client in milliseconds
+}
+
+export class SseStream {
+  public readonly lastEventId?: string;
+  private res: EfwResponse;
+  private keepAliveTimer?: ReturnType<typeof setInterval>;
+  private closeHandlers: Array<() => void> = [];
+  private isClosed = false;
+
+  constructor(res: EfwResponse, signal: AbortSignal, lastEventId?: string, options: SseOptions = {}) {
+    this.res = res;
+    this.lastEventId = lastEventId;
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+
+    // The first write commits the headers so the client sees the stream open immediately
+    res.write(options.retry !== undefined ? `retry: ${options.retry}\n\n` : ': connected\n\n');
+
+    const keepAlive = options.keepAlive ?? 15000;
+    if (keepAlive > 0) {
+      this.keepAliveTimer = setInterval(() => this.comment('keep-alive'), keepAlive);
+    }
+
+    if (signal.aborted) {
+      this.cleanup();
+    } else {
+      signal.addEventListener('abort', () => this.cleanup(), { once: true });
+    }
+  }
+
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  send(event: string, data: unknown, id?: string | number): boolean {
+    if (this.isClosed) return false;
+
+    let message = '';
+    if (id !== undefined) {
+      message += `id: ${String(id).replace(/[\r\n]/g, '')}\n`;
+    }
+    if (event && event !== 'message') {
+      message += `event: ${event.replace(/[\r\n]/g, '')}\n`;
+    }
+
+    const payload = typeof data === 'string' ? data : JSON.stringify(data);
+    for (const line of payload.split(/\r\n|\r|\n/)) {
+      message += `data: ${line}\n`;
+    }
+
+    this.res.write(`${message}\n`);
+    return true;
+  }
+
+  comment(text: string): void {
+    if (this.isClosed) return;
+    this.res.write(`: ${text.replace(/[\r\n]/g, ' ')}\n\n`);
+  }
+
+  onClose(handler: () => void): void {
+    if (this.isClosed) {
+      handler();
+    } else {
+      this.closeHandlers.push(handler);
+    }
+  }
+
+  close(): void {
+    if (this.isClosed) return;
+    this.res.end();
+    this.cleanup();
+  }
+
+  private cleanup(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = undefined;
+    }
+
+    for (const handler of this.closeHandlers.splice(0)) {
+      try {
+        handler();
+      } catch (error) {
+        console.error('SSE close handler error:', error);
+      }
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import type { ValidationSchema, Middleware, EfwRequest, EfwResponse, NextFunction } from '../types';
+import type { ValidationSchema, Middleware, EfwRequest, EfwResponse, NextFunction, RouteSchema, RequestHook, OnSendHook } from '../types';
 import { ValidationError } from '../utils/errors';
 
 export interface ValidateOptions {
@@ -171,6 +171,81 @@ export function validate(options: ValidateOptions): Middleware {
   };
 }
 
+// Query strings, params and headers arrive as strings; convert the ones declared as numbers or booleans
+function coerceStrings(data: Record<string, any>, schema: ValidationSchema): Record<string, any> {
+  const result = { ...data };
+
+  for (const [field, rules] of Object.entries(schema)) {
+    const value = result[field];
+    if (typeof value !== 'string' || value === '') continue;
+
+    if (rules.type === 'number' && !isNaN(Number(value))) {
+      result[field] = Number(value);
+    } else if (rules.type === 'boolean' && (value === 'true' || value === 'false')) {
+      result[field] = value === 'true';
+    }
+  }
+
+  return result;
+}
+
+/**
+ * preHandler hook used by app.route(): validates and coerces the request against the route schema.
+ * Throws the first ValidationError, which is answered with 400.
+ */
+export function createRequestValidator(schema: RouteSchema): RequestHook {
+  const parts = (['params', 'query', 'headers', 'body'] as const)
+    .filter(part => schema[part])
+    .map(part => ({ part, validator: new SchemaValidator(schema[part]!) }));
+
+  return (req: EfwRequest) => {
+    for (const { part, validator } of parts) {
+      const input = part === 'body' ? req.body ?? {} : coerceStrings(req[part], schema[part]!);
+      const { value, errors } = validator.validate(input);
+
+      if (errors.length > 0) {
+        throw errors[0];
+      }
+      (req as any)[part] = value;
+    }
+  };
+}
+
+/**
+ * onSend hook used by app.route(): checks JSON responses against the schema for their status code
+ * and drops fields the schema does not declare. A response that fails validation becomes a 500.
+ */
+export function createResponseSerializer(response: NonNullable<RouteSchema['response']>): OnSendHook {
+  const validators = new Map<number, SchemaValidator>();
+  for (const [statusCode, schema] of Object.entries(response)) {
+    validators.set(Number(statusCode), new SchemaValidator(schema, { stripUnknown: true }));
+  }
+
+  return (req: EfwRequest, res: EfwResponse, payload: any) => {
+    const validator = validators.get(res.statusCode);
+    const contentType = res.getHeader('Content-Type');
+    if (!validator || typeof payload !== 'string' || !String(contentType).includes('application/json')) {
+      return undefined;
+    }
+
+    const data = JSON.parse(payload);
+    const items = Array.isArray(data) ? data : [data];
+    const serialized = [];
+
+    for (const item of items) {
+      const { value, errors } = validator.validate(item ?? {});
+      if (errors.length > 0) {
+        console.error(`Response validation failed for ${req.method} ${req.path}:`, errors[0]!.message);
+        res.status(500);
+        return JSON.stringify({ error: 'Internal Server Error', message: 'Response validation failed' });
+      }
+      serialized.push(value);
+    }
+
+    return JSON.stringify(Array.isArray(data) ? serialized : serialized[0]);
+  };
+}
+
 // Common validation schemas
 export const commonSchemas = {
   email: {
@@ -1,8 +1,18 @@
-import { test, expect, describe } from 'bun:test';
+import { test, expect, describe, beforeEach, afterEach, spyOn } from 'bun:test';
+import zlib, { gzipSync, gunzipSync, brotliDecompressSync } from 'zlib';
 import { Efw } from '../src/framework';
 import { Router } from '../src/router';
+import { json, raw, parseSize } from '../src/bodyParser';
+import { definePlugin } from '../src/plugin';
+import { Container, InjectionToken } from '../src/container';
+import { getRequestContext } from '../src/context';
+import { compression, isCompressible, negotiateEncoding } from '../src/compression';
+import { parseRange } from '../src/range';
+import { Logger, type LogEntry } from '../src/utils/logger';
+import { Monitor, createMonitoringHook } from '../src/utils/monitor';
 import { SchemaValidator, createSchema, commonSchemas } from '../src/validation/schema';
-import { EfwError, ValidationError } from '../src/utils/errors';
+import { EfwError, TimeoutError, ValidationError } from '../src/utils/errors';
+import { TestServer, delay } from './test-helpers';
 
 describe('Efw Core', () => {
   test('should create efw instance', () => {
@@ -55,6 +65,1893 @@ describe('Router', () => {
     const match = router.findRoute('GET', '/posts');
     expect(match).toBeNull();
   });
+
+  test('should prefer static segments over params', () => {
+    const router = new Router();
+    router.get('/users/:id', () => {});
+    router.get('/users/me', () => {});
+    
+    expect(router.findRoute('GET', '/users/me')?.route.path).toBe('/users/me');
+    expect(router.findRoute('GET', '/users/42')?.params.id).toBe('42');
+  });
+
+  test('should fall back to params when a static branch dead-ends', () => {
+    const router = new Router();
+    router.get('/users/me/settings', () => {});
+    router.get('/users/:id/posts', () => {});
+    
+    const match = router.findRoute('GET', '/users/me/posts');
+    expect(match?.route.path).toBe('/users/:id/posts');
+    expect(match?.params.id).toBe('me');
+  });
+
+  test('should match routes per method', () => {
+    const router = new Router();
+    router.get('/items', () => {});
+    
+    expect(router.findRoute('get', '/items')).not.toBeNull();
+    expect(router.findRoute('POST', '/items')).toBeNull();
+    expect(router.getRoutes()).toHaveLength(1);
+  });
+});
+
+describe('HTTP Method Semantics', () => {
+  let app: Efw;
+
+  beforeEach(async () => {
+    app = new Efw();
+    app.get('/items', (req, res) => {
+      res.json({ items: ['a', 'b'] });
+    });
+    app.post('/items', (req, res) => {
+      res.status(201).json({ created: true });
+    });
+    app.get('/custom', (req, res) => {
+      res.json({ ok: true });
+    });
+    app.options('/custom', (req, res) => {
+      res.setHeader('X-Custom-Options', 'true');
+      res.status(200).send('custom');
+    });
+  });
+
+  test('should reply 405 with an Allow header when the method does not match', async () => {
+    const response = await app.inject({ method: 'DELETE', url: '/items' });
+    
+    expect(response.status).toBe(405);
+    expect(response.headers['allow']).toBe('GET, HEAD, POST, OPTIONS');
+    expect(response.body).toEqual({ error: 'Method Not Allowed' });
+  });
+
+  test('should still reply 404 for unknown paths', async () => {
+    const response = await app.inject({ method: 'DELETE', url: '/missing' });
+    
+    expect(response.status).toBe(404);
+    expect(response.headers['allow']).toBeUndefined();
+  });
+
+  test('should answer HEAD from the GET route without a body', async () => {
+    const response = await app.inject({ method: 'HEAD', url: '/items' });
+    
+    expect(response.status).toBe(200);
+    expect(response.body).toBe('');
+    expect(response.headers['content-type']).toBe('application/json');
+    expect(response.headers['content-length']).toBe(String(JSON.stringify({ items: ['a', 'b'] }).length));
+  });
+
+  test('should answer OPTIONS automatically from the route table', async () => {
+    const response = await app.inject({ method: 'OPTIONS', url: '/items' });
+    
+    expect(response.status).toBe(204);
+    expect(response.headers['allow']).toBe('GET, HEAD, POST, OPTIONS');
+  });
+
+  test('should prefer an app-registered OPTIONS handler', async () => {
+    const response = await app.inject({ method: 'OPTIONS', url: '/custom' });
+    
+    expect(response.status).toBe(200);
+    expect(response.headers['x-custom-options']).toBe('true');
+    expect(response.body).toBe('custom');
+  });
+});
+
+describe('Streaming Responses', () => {
+  test('should stream chunks written with write() and end()', async () => {
+    const app = new Efw();
+    app.get('/export.csv', async (req, res) => {
+      res.setHeader('Content-Type', 'text/csv');
+      res.write('id,name\n');
+      await delay(5);
+      res.write(new TextEncoder().encode('1,Ada\n'));
+      res.end('2,Linus\n');
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/export.csv' });
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('text/csv');
+    expect(response.body).toBe('id,name\n1,Ada\n2,Linus\n');
+  });
+
+  test('should stream an async iterable through res.stream()', async () => {
+    const app = new Efw();
+    async function* rows() {
+      for (let i = 1; i <= 3; i++) {
+        await delay(1);
+        yield `row ${i}\n`;
+      }
+    }
+
+    app.get('/rows', async (req, res) => {
+      res.status(201);
+      await res.stream(rows());
+    });
+    app.get('/readable', (req, res) => {
+      res.stream(new Blob(['from a ', 'ReadableStream']).stream());
+    });
+
+    const rowsResponse = await app.inject({ method: 'GET', url: '/rows' });
+    expect(rowsResponse.status).toBe(201);
+    expect(rowsResponse.body).toBe('row 1\nrow 2\nrow 3\n');
+
+    const readableResponse = await app.inject({ method: 'GET', url: '/readable' });
+    expect(readableResponse.body).toBe('from a ReadableStream');
+  });
+
+  test('should commit status and headers when the first chunk is sent', async () => {
+    const app = new Efw();
+    let headersSentAfterWrite = false;
+
+    app.get('/committed', (req, res) => {
+      res.setHeader('X-Before', 'yes');
+      res.write('first');
+      headersSentAfterWrite = res.headersSent;
+      res.setHeader('X-After', 'yes');
+      res.status(500);
+      res.json({ ignored: true });
+      res.end();
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/committed' });
+    expect(headersSentAfterWrite).toBe(true);
+    expect(response.status).toBe(200);
+    expect(response.headers['x-before']).toBe('yes');
+    expect(response.headers['x-after']).toBeUndefined();
+    expect(response.body).toBe('first');
+  });
+
+  test('should buffer end() when nothing was streamed', async () => {
+    const app = new Efw();
+    app.get('/plain', (req, res) => {
+      res.status(202).end('done');
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/plain' });
+    expect(response.status).toBe(202);
+    expect(response.body).toBe('done');
+  });
+});
+
+describe('Response Headers', () => {
+  test('should keep every Set-Cookie header on one response', async () => {
+    const app = new Efw();
+    const expires = new Date('2030-01-01T00:00:00Z');
+    app.use((req: any, res: any, next: any) => {
+      res.cookie('session-id', 'abc', { httpOnly: true, path: '/' });
+      next();
+    });
+    app.get('/cookies', (req, res) => {
+      res.cookie('theme', 'dark', { expires, priority: 'high', sameSite: 'lax' });
+      res.json({ ok: true });
+    });
+
+    const response = await app.inject({ url: '/cookies' });
+    expect(response.setCookies).toEqual([
+      'session-id=abc; Path=/; HttpOnly',
+      `theme=dark; Expires=${expires.toUTCString()}; SameSite=Lax; Priority=high`
+    ]);
+  });
+
+  test('should append, read and remove headers case-insensitively', async () => {
+    const app = new Efw();
+    let seen: Record<string, unknown> = {};
+    app.get('/headers', (req, res) => {
+      res.setHeader('X-Trace', 'one');
+      res.appendHeader('x-trace', 'two');
+      res.appendHeader('Set-Cookie', 'a=1');
+      res.appendHeader('Set-Cookie', 'b=2');
+      res.setHeader('X-Removed', 'yes');
+      res.removeHeader('x-removed');
+      seen = {
+        trace: res.getHeader('X-TRACE'),
+        cookies: res.getHeader('set-cookie'),
+        removed: res.getHeader('X-Removed')
+      };
+      res.text('ok');
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/headers' });
+    expect(seen).toEqual({ trace: 'one, two', cookies: ['a=1', 'b=2'], removed: undefined });
+    expect(response.headers['x-trace']).toBe('one, two');
+    expect(response.headers['x-removed']).toBeUndefined();
+  });
+});
+
+describe('Conditional Requests', () => {
+  test('should add ETags and answer matching GET and HEAD requests with 304', async () => {
+    const app = new Efw({ etag: 'weak' });
+    app.get('/items', (req, res) => res.json([{ id: 1 }]));
+
+    const first = await app.inject({ url: '/items' });
+    const etag = first.headers['etag']!;
+    const cached = await app.inject({ url: '/items', headers: { 'If-None-Match': `"other", ${etag}` } });
+    const head = await app.inject({ method: 'HEAD', url: '/items', headers: { 'If-None-Match': etag } });
+    const stale = await app.inject({ url: '/items', headers: { 'If-None-Match': 'W/"stale"' } });
+
+    expect(etag).toMatch(/^W\/"[0-9a-f]+-/);
+    expect(cached.status).toBe(304);
+    expect(cached.text).toBe('');
+    expect(cached.headers['etag']).toBe(etag);
+    expect(cached.headers['content-type']).toBeUndefined();
+    expect(head.status).toBe(304);
+    expect(stale.status).toBe(200);
+    expect((await app.inject({ url: '/missing' })).headers['etag']).toBeUndefined();
+  });
+
+  test('should evaluate If-Match and date validators set by the handler', async () => {
+    const modified = new Date('2024-05-01T12:00:00Z');
+    const app = new Efw({ etag: 'strong' });
+    app.get('/report', (req, res) => {
+      res.setHeader('Last-Modified', modified.toUTCString());
+      res.text('report');
+    });
+
+    const etag = (await app.inject({ url: '/report' })).headers['etag']!;
+    const notModified = await app.inject({ url: '/report', headers: { 'If-Modified-Since': 'Wed, 01 May 2024 12:00:00 GMT' } });
+    const modifiedSince = await app.inject({ url: '/report', headers: { 'If-Modified-Since': 'Wed, 01 May 2024 11:59:59 GMT' } });
+    const unmodifiedSince = await app.inject({ url: '/report', headers: { 'If-Unmodified-Since': 'Tue, 30 Apr 2024 00:00:00 GMT' } });
+    const weakIfMatch = await app.inject({ url: '/report', headers: { 'If-Match': `W/${etag}` } });
+    const ifMatch = await app.inject({ url: '/report', headers: { 'If-Match': etag } });
+
+    expect(etag.startsWith('"')).toBe(true);
+    expect(notModified.status).toBe(304);
+    expect(modifiedSince.status).toBe(200);
+    expect(unmodifiedSince.status).toBe(412);
+    expect(unmodifiedSince.body).toEqual({ error: 'Precondition Failed' });
+    expect(weakIfMatch.status).toBe(412);
+    expect(ifMatch.status).toBe(200);
+  });
+
+  test('should reject writes against a stale version before they are applied', async () => {
+    const app = new Efw();
+    const doc = { version: 1, title: 'Draft' };
+    app.put('/doc', (req, res) => {
+      if (!res.checkPreconditions({ etag: `"v${doc.version}"` })) return;
+      doc.title = req.body.title;
+      doc.version++;
+      res.setHeader('ETag', `"v${doc.version}"`);
+      res.json(doc);
+    });
+
+    const stale = await app.inject({ method: 'PUT', url: '/doc', headers: { 'If-Match': '"v0"' }, body: { title: 'Lost' } });
+    const fresh = await app.inject({ method: 'PUT', url: '/doc', headers: { 'If-Match': '"v1"' }, body: { title: 'Final' } });
+    const created = await app.inject({ method: 'PUT', url: '/doc', headers: { 'If-None-Match': '*' }, body: { title: 'Again' } });
+
+    expect(stale.status).toBe(412);
+    expect(fresh.status).toBe(200);
+    expect(fresh.headers['etag']).toBe('"v2"');
+    expect(created.status).toBe(412);
+    expect(doc).toEqual({ version: 2, title: 'Final' });
+  });
+
+  test('should serve static files with size and mtime validators', async () => {
+    const { mkdtemp, writeFile, rm } = await import('fs/promises');
+    const { tmpdir } = await import('os');
+    const { join } = await import('path');
+    const publicDir = await mkdtemp(join(tmpdir(), 'efw-static-'));
+
+    try {
+      await writeFile(join(publicDir, 'app.css'), 'body { margin: 0; }');
+      const app = new Efw({ staticPath: publicDir });
+
+      const first = await app.inject({ url: '/app.css' });
+      const cached = await app.inject({ url: '/app.css', headers: { 'If-None-Match': first.headers['etag']! } });
+      const sinceModified = await app.inject({ url: '/app.css', headers: { 'If-Modified-Since': first.headers['last-modified']! } });
+
+      expect(first.status).toBe(200);
+      expect(first.text).toBe('body { margin: 0; }');
+      expect(first.headers['etag']).toMatch(/^W\/"13-[0-9a-f]+"$/);
+      expect(cached.status).toBe(304);
+      expect(sinceModified.status).toBe(304);
+    } finally {
+      await rm(publicDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('File Responses and Ranges', () => {
+  const content = '0123456789abcdef';
+  let publicDir: string;
+
+  beforeEach(async () => {
+    const { mkdtemp, writeFile } = await import('fs/promises');
+    const { tmpdir } = await import('os');
+    const { join } = await import('path');
+    publicDir = await mkdtemp(join(tmpdir(), 'efw-files-'));
+    await writeFile(join(publicDir, 'clip.mp4'), content);
+  });
+
+  afterEach(async () => {
+    const { rm } = await import('fs/promises');
+    await rm(publicDir, { recursive: true, force: true });
+  });
+
+  const createApp = () => {
+    const app = new Efw();
+    app.get('/media/*file', (req, res) => res.sendFile(req.params.file, { root: publicDir, headers: { 'Cache-Control': 'max-age=60' } }));
+    return app;
+  };
+
+  test('should serve whole files and single byte ranges with res.sendFile', async () => {
+    const app = createApp();
+
+    const full = await app.inject({ url: '/media/clip.mp4' });
+    const partial = await app.inject({ url: '/media/clip.mp4', headers: { Range: 'bytes=2-5' } });
+    const suffix = await app.inject({ url: '/media/clip.mp4', headers: { Range: 'bytes=-3' } });
+    const openEnded = await app.inject({ url: '/media/clip.mp4', headers: { Range: 'bytes=12-' } });
+    const head = await app.inject({ method: 'HEAD', url: '/media/clip.mp4', headers: { Range: 'bytes=0-9' } });
+
+    expect(full.status).toBe(200);
+    expect(full.text).toBe(content);
+    expect(full.headers).toMatchObject({ 'accept-ranges': 'bytes', 'content-type': 'video/mp4', 'cache-control': 'max-age=60' });
+    expect(full.headers['etag']).toBeDefined();
+    expect(partial.status).toBe(206);
+    expect(partial.text).toBe('2345');
+    expect(partial.headers['content-range']).toBe('bytes 2-5/16');
+    expect(partial.headers['content-length']).toBe('4');
+    expect(suffix.text).toBe('def');
+    expect(openEnded.headers['content-range']).toBe('bytes 12-15/16');
+    expect(head.status).toBe(206);
+    expect(head.headers['content-length']).toBe('10');
+  });
+
+  test('should answer unsatisfiable ranges with 416 and several ranges with multipart/byteranges', async () => {
+    const app = createApp();
+
+    const unsatisfiable = await app.inject({ url: '/media/clip.mp4', headers: { Range: 'bytes=100-200' } });
+    const ignored = await app.inject({ url: '/media/clip.mp4', headers: { Range: 'items=0-1' } });
+    const multi = await app.inject({ url: '/media/clip.mp4', headers: { Range: 'bytes=0-1, 10-11' } });
+
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.headers['content-range']).toBe('bytes */16');
+    expect(ignored.status).toBe(200);
+    expect(multi.status).toBe(206);
+    const boundary = multi.headers['content-type']!.match(/^multipart\/byteranges; boundary=(.+)$/)![1];
+    expect(multi.text).toBe(
+      `--${boundary}\r\nContent-Type: video/mp4\r\nContent-Range: bytes 0-1/16\r\n\r\n01\r\n` +
+      `--${boundary}\r\nContent-Type: video/mp4\r\nContent-Range: bytes 10-11/16\r\n\r\nab\r\n` +
+      `--${boundary}--\r\n`
+    );
+  });
+
+  test('should only honour If-Range while the client copy is current', async () => {
+    const app = createApp();
+    const { headers } = await app.inject({ url: '/media/clip.mp4' });
+
+    const current = await app.inject({ url: '/media/clip.mp4', headers: { Range: 'bytes=0-3', 'If-Range': headers['last-modified']! } });
+    const stale = await app.inject({ url: '/media/clip.mp4', headers: { Range: 'bytes=0-3', 'If-Range': 'Mon, 01 Jan 2018 00:00:00 GMT' } });
+    const weakTag = await app.inject({ url: '/media/clip.mp4', headers: { Range: 'bytes=0-3', 'If-Range': headers['etag']! } });
+
+    expect(current.status).toBe(206);
+    expect(stale.status).toBe(200);
+    expect(stale.text).toBe(content);
+    expect(weakTag.status).toBe(200);
+  });
+
+  test('should 404 for missing files and paths outside the root', async () => {
+    const app = createApp();
+    app.get('/escape', (req, res) => res.sendFile('../etc/passwd', { root: publicDir }));
+
+    expect((await app.inject({ url: '/media/missing.mp4' })).status).toBe(404);
+    expect((await app.inject({ url: '/escape' })).status).toBe(404);
+  });
+
+  test('should serve ranges from the static middleware', async () => {
+    const app = new Efw({ staticPath: publicDir });
+
+    const response = await app.inject({ url: '/clip.mp4', headers: { Range: 'bytes=4-7' } });
+
+    expect(response.status).toBe(206);
+    expect(response.text).toBe('4567');
+  });
+
+  test('should parse and merge byte ranges', () => {
+    expect(parseRange('bytes=0-4,2-8, 20-', 30)).toEqual([{ start: 0, end: 8 }, { start: 20, end: 29 }]);
+    expect(parseRange('bytes=5-9,0-4', 30)).toEqual([{ start: 0, end: 9 }]);
+    expect(parseRange('bytes=-100', 30)).toEqual([{ start: 0, end: 29 }]);
+    expect(parseRange('bytes=40-50', 30)).toEqual([]);
+    expect(parseRange('bytes=9-1', 30)).toBeUndefined();
+    expect(parseRange('bytes=abc', 30)).toBeUndefined();
+    expect(parseRange('pages=1-2', 30)).toBeUndefined();
+  });
+});
+
+describe('Response Compression', () => {
+  const longText = 'efw '.repeat(500);
+
+  const createApp = () => {
+    const app = new Efw();
+    app.addHook('onSend', compression({ threshold: '1kb' }));
+    app.get('/text', (req, res) => res.text(longText));
+    app.get('/small', (req, res) => res.json({ ok: true }));
+    app.get('/image', (req, res) => {
+      res.setHeader('Content-Type', 'image/png');
+      res.send(new Uint8Array(2048));
+    });
+    app.get('/encoded', (req, res) => {
+      res.setHeader('Content-Encoding', 'gzip');
+      res.send(new Uint8Array(gzipSync(longText)));
+    });
+    return app;
+  };
+  const request = (app: Efw, path: string, encoding?: string) =>
+    app.fetch(new Request(`http://localhost${path}`, { headers: encoding ? { 'Accept-Encoding': encoding } : {} }));
+
+  test('should negotiate the encoding from Accept-Encoding', async () => {
+    const app = createApp();
+
+    const br = await request(app, '/text', 'gzip, deflate, br');
+    const gzip = await request(app, '/text', 'br;q=0.5, gzip');
+    const identity = await request(app, '/text');
+    const refused = await request(app, '/text', '*;q=0');
+
+    expect(br.headers.get('content-encoding')).toBe('br');
+    expect(br.headers.get('vary')).toBe('Accept-Encoding');
+    expect(brotliDecompressSync(Buffer.from(await br.arrayBuffer())).toString()).toBe(longText);
+    expect(gzip.headers.get('content-encoding')).toBe('gzip');
+    expect(gunzipSync(Buffer.from(await gzip.arrayBuffer())).toString()).toBe(longText);
+    expect(identity.headers.get('content-encoding')).toBeNull();
+    expect(identity.headers.get('vary')).toBe('Accept-Encoding');
+    expect(await identity.text()).toBe(longText);
+    expect(refused.headers.get('content-encoding')).toBeNull();
+  });
+
+  test('should skip small, incompressible and already encoded bodies', async () => {
+    const app = createApp();
+
+    const small = await request(app, '/small', 'gzip');
+    const image = await request(app, '/image', 'gzip');
+    const encoded = await request(app, '/encoded', 'br');
+
+    expect(small.headers.get('content-encoding')).toBeNull();
+    expect(await small.json()).toEqual({ ok: true });
+    expect(image.headers.get('content-encoding')).toBeNull();
+    expect(image.headers.get('vary')).toBeNull();
+    expect(encoded.headers.get('content-encoding')).toBe('gzip');
+    expect(gunzipSync(Buffer.from(await encoded.arrayBuffer())).toString()).toBe(longText);
+  });
+
+  test('should compress streamed bodies chunk by chunk', async () => {
+    const app = new Efw();
+    app.addHook('onSend', compression());
+    app.get('/export', async (req, res) => {
+      res.setHeader('Content-Type', 'text/csv');
+      res.write('id,name\n');
+      await delay(5);
+      res.end('1,Ada\n');
+    });
+
+    const response = await request(app, '/export', 'gzip');
+
+    expect(response.headers.get('content-encoding')).toBe('gzip');
+    expect(gunzipSync(Buffer.from(await response.arrayBuffer())).toString()).toBe('id,name\n1,Ada\n');
+  });
+
+  test('should compress after route-level hooks such as the response serializer', async () => {
+    const app = new Efw();
+    app.addHook('onSend', compression({ threshold: 0 }));
+    app.route({
+      method: 'GET',
+      path: '/user',
+      schema: { response: { 200: { name: { type: 'string', required: true } } } },
+      handler: (req, res) => res.json({ name: 'Ada', password: 'secret' } as any)
+    });
+
+    const response = await request(app, '/user', 'gzip');
+
+    expect(response.headers.get('content-encoding')).toBe('gzip');
+    expect(JSON.parse(gunzipSync(Buffer.from(await response.arrayBuffer())).toString())).toEqual({ name: 'Ada' });
+  });
+
+  test('should destroy the compressor when the client cancels a streamed body', async () => {
+    const createGzip = spyOn(zlib, 'createGzip');
+    const app = new Efw();
+    app.addHook('onSend', compression());
+    app.get('/feed', (req, res) => {
+      res.setHeader('Content-Type', 'text/plain');
+      res.write('first\n');
+    });
+
+    try {
+      const response = await request(app, '/feed', 'gzip');
+      const reader = response.body!.getReader();
+      await reader.read();
+      await reader.cancel();
+
+      expect((createGzip.mock.results[0]!.value as zlib.Gzip).destroyed).toBe(true);
+    } finally {
+      createGzip.mockRestore();
+    }
+  });
+
+  test('should weigh q-values, wildcards and server preference', () => {
+    expect(negotiateEncoding('gzip, br')).toBe('br');
+    expect(negotiateEncoding('gzip, br', ['gzip', 'br'])).toBe('gzip');
+    expect(negotiateEncoding('deflate;q=1, gzip;q=0.8')).toBe('deflate');
+    expect(negotiateEncoding('*;q=0.5, br;q=0')).toBe('gzip');
+    expect(negotiateEncoding('identity')).toBeUndefined();
+    expect(negotiateEncoding(undefined)).toBeUndefined();
+    expect(isCompressible('application/json; charset=utf-8')).toBe(true);
+    expect(isCompressible('application/vnd.api+json')).toBe(true);
+    expect(isCompressible('image/jpeg')).toBe(false);
+    expect(isCompressible('text/event-stream')).toBe(false);
+  });
+});
+
+describe('Server-Sent Events', () => {
+  test('should push events, keep-alives and honor Last-Event-ID', async () => {
+    const app = new Efw();
+    let closed = false;
+
+    app.get('/events', (req, res) => {
+      const stream = res.sse({ keepAlive: 20, retry: 1000 });
+      stream.send('resume', { from: stream.lastEventId ?? null }, 42);
+      stream.send('message', 'line one\nline two');
+      stream.onClose(() => {
+        closed = true;
+      });
+    });
+
+    const response = await app.fetch(new Request('http://localhost/events', { headers: { 'Last-Event-ID': '41' } }));
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(response.headers.get('cache-control')).toBe('no-cache');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    while (!received.includes(': keep-alive')) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      received += decoder.decode(value);
+    }
+
+    expect(received).toContain('retry: 1000\n\n');
+    expect(received).toContain('id: 42\nevent: resume\ndata: {"from":"41"}\n\n');
+    expect(received).toContain('data: line one\ndata: line two\n\n');
+
+    await reader.cancel();
+    expect(closed).toBe(true);
+  });
+
+  test('should end the response when the stream is closed', async () => {
+    const app = new Efw();
+    app.get('/finite', (req, res) => {
+      const stream = res.sse({ keepAlive: 0 });
+      stream.send('tick', 1, 1);
+      stream.close();
+      expect(stream.closed).toBe(true);
+      expect(stream.send('tick', 2, 2)).toBe(false);
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/finite' });
+    expect(response.body).toBe(': connected\n\nid: 1\nevent: tick\ndata: 1\n\n');
+  });
+});
+
+describe('WebSocket Routes', () => {
+  let server: TestServer;
+
+  const connect = (path: string, headers: Record<string, string> = {}) => {
+    const socket = new WebSocket(`ws://localhost:${server.getPort()}${path}`, { headers } as any);
+    const messages: string[] = [];
+    socket.addEventListener('message', (event) => messages.push(String(event.data)));
+    const opened = new Promise<void>((resolve, reject) => {
+      socket.addEventListener('open', () => resolve());
+      socket.addEventListener('error', () => reject(new Error('WebSocket connection failed')));
+    });
+    return { socket, messages, opened };
+  };
+
+  const waitFor = async (condition: () => boolean, timeout: number = 1000) => {
+    const start = Date.now();
+    while (!condition()) {
+      if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition');
+      await delay(5);
+    }
+  };
+
+  beforeEach(async () => {
+    const app = new Efw();
+
+    app.use((req: any, res: any, next: any) => {
+      if (req.cookies.token === 'secret') {
+        req.user = { name: 'ada' };
+      }
+      next();
+    });
+
+    app.use('/ws/private', (req: any, res: any, next: any) => {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      next();
+    });
+
+    app.ws<{ joinedAt: number }>('/ws/rooms/:room', {
+      upgrade: () => ({ joinedAt: Date.now() }),
+      open(ws) {
+        ws.subscribe(ws.data.params.room!);
+        ws.send(JSON.stringify({ room: ws.data.params.room, user: ws.data.req.user ?? null, hasState: ws.data.state.joinedAt > 0 }));
+      },
+      message(ws, message) {
+        ws.publish(ws.data.params.room!, `${ws.data.req.user?.name ?? 'anonymous'}: ${message}`);
+      }
+    });
+
+    app.ws('/ws/private', {
+      open(ws) {
+        ws.send('welcome');
+      }
+    });
+
+    app.get('/broadcast/:room', (req, res) => {
+      res.json({ delivered: app.publish(req.params.room!, { announcement: 'hello' }) > 0 });
+    });
+
+    server = new TestServer(app);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  test('should pass route params, middleware state and per-connection data', async () => {
+    const client = connect('/ws/rooms/lobby', { Cookie: 'token=secret' });
+    await client.opened;
+    await waitFor(() => client.messages.length > 0);
+
+    expect(JSON.parse(client.messages[0]!)).toEqual({ room: 'lobby', user: { name: 'ada' }, hasState: true });
+    client.socket.close();
+  });
+
+  test('should relay messages through topics', async () => {
+    const sender = connect('/ws/rooms/general', { Cookie: 'token=secret' });
+    const listener = connect('/ws/rooms/general');
+    await Promise.all([sender.opened, listener.opened]);
+    await waitFor(() => sender.messages.length > 0 && listener.messages.length > 0);
+
+    sender.socket.send('hi there');
+    await waitFor(() => listener.messages.length > 1);
+    expect(listener.messages[1]).toBe('ada: hi there');
+
+    const response = await server.request({ method: 'GET', url: '/broadcast/general' });
+    expect(response.body).toEqual({ delivered: true });
+    await waitFor(() => listener.messages.length > 2);
+    expect(JSON.parse(listener.messages[2]!)).toEqual({ announcement: 'hello' });
+
+    sender.socket.close();
+    listener.socket.close();
+  });
+
+  test('should let middleware reject the upgrade handshake', async () => {
+    const rejected = connect('/ws/private');
+    await expect(rejected.opened).rejects.toThrow();
+
+    const accepted = connect('/ws/private', { Cookie: 'token=secret' });
+    await accepted.opened;
+    await waitFor(() => accepted.messages.length > 0);
+    expect(accepted.messages[0]).toBe('welcome');
+    accepted.socket.close();
+  });
+
+  test('should serve plain HTTP on paths without a WebSocket route', async () => {
+    const response = await server.request({ method: 'GET', url: '/ws/rooms/lobby' });
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Multipart Uploads', () => {
+  test('should expose fields on req.body and files on req.files', async () => {
+    const app = new Efw({ multipart: { maxFileSize: 1024, allowedMimeTypes: ['text/*'] } });
+    app.post('/contact', (req, res) => {
+      const attachment = req.files?.attachment?.[0];
+      res.json({
+        body: req.body,
+        attachment: attachment && {
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+          content: new TextDecoder().decode(attachment.data)
+        }
+      });
+    });
+
+    const post = (body: FormData) => app.fetch(new Request('http://localhost/contact', { method: 'POST', body }));
+
+    const form = new FormData();
+    form.append('email', 'ada@example.com');
+    form.append('attachment', new Blob(['hello'], { type: 'text/plain' }), 'note.txt');
+
+    const response = await post(form);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      body: { email: 'ada@example.com' },
+      attachment: { filename: 'note.txt', mimeType: 'text/plain', content: 'hello' }
+    });
+
+    const tooLarge = new FormData();
+    tooLarge.append('attachment', new Blob(['x'.repeat(2048)], { type: 'text/plain' }), 'big.txt');
+    const tooLargeResponse = await post(tooLarge);
+    expect(tooLargeResponse.status).toBe(413);
+
+    const wrongType = new FormData();
+    wrongType.append('attachment', new Blob(['%PDF'], { type: 'application/pdf' }), 'doc.pdf');
+    const wrongTypeResponse = await post(wrongType);
+    expect(wrongTypeResponse.status).toBe(415);
+  });
+
+  test('should delete temp files after the request unless the handler moved them', async () => {
+    const { mkdtemp, rename, rm } = await import('fs/promises');
+    const { existsSync } = await import('fs');
+    const { tmpdir } = await import('os');
+    const { join } = await import('path');
+    const tempDir = await mkdtemp(join(tmpdir(), 'efw-uploads-'));
+    const kept = join(tempDir, 'kept.txt');
+    const paths: string[] = [];
+
+    try {
+      const app = new Efw({ multipart: { tempDir: join(tempDir, 'incoming') } });
+      app.post('/upload', async (req, res) => {
+        const [first, second] = req.files!.doc!;
+        paths.push(first!.path!, second!.path!);
+        await rename(second!.path!, kept);
+        res.json({ existed: existsSync(first!.path!) });
+      });
+
+      const form = new FormData();
+      form.append('doc', new Blob(['draft'], { type: 'text/plain' }), 'draft.txt');
+      form.append('doc', new Blob(['final'], { type: 'text/plain' }), 'final.txt');
+      const response = await app.fetch(new Request('http://localhost/upload', { method: 'POST', body: form }));
+
+      expect(await response.json()).toEqual({ existed: true });
+      expect(existsSync(paths[0]!)).toBe(false);
+      expect(existsSync(kept)).toBe(true);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Body Parsers', () => {
+  let app: Efw;
+
+  const post = (url: string, body: string | Uint8Array, contentType?: string) =>
+    app.fetch(new Request(`http://localhost${url}`, {
+      method: 'POST',
+      headers: contentType ? { 'Content-Type': contentType } : {},
+      body
+    }));
+
+  beforeEach(async () => {
+    app = new Efw({ bodyParser: { limit: '1kb' } });
+
+    app.bodyParser('application/xml', (raw) => {
+      const text = new TextDecoder().decode(raw);
+      return { root: text.match(/^<(\w+)/)?.[1] };
+    });
+    app.bodyParser('application/vnd.webhook+json', json({ keepRawBody: true, strict: true }));
+    app.bodyParser('application/x-proxy', raw());
+
+    app.post('/echo', (req, res) => {
+      const body = req.body instanceof Uint8Array ? { bytes: req.body.length } : req.body;
+      res.json({ body, rawBody: req.rawBody ? new TextDecoder().decode(req.rawBody) : null });
+    });
+    app.post('/proxy', async (req, res) => {
+      res.json({ streamed: await new Response(req.body).text() });
+    });
+  });
+
+  test('should parse built-in content types', async () => {
+    expect(await (await post('/echo', '{"a":1}', 'application/json')).json()).toEqual({ body: { a: 1 }, rawBody: null });
+    expect(await (await post('/echo', 'a=1&b=2', 'application/x-www-form-urlencoded')).json()).toEqual({ body: { a: '1', b: '2' }, rawBody: null });
+    expect(await (await post('/echo', 'plain text', 'text/plain')).json()).toEqual({ body: 'plain text', rawBody: null });
+    expect(await (await post('/echo', new Uint8Array([1, 2, 3]), 'application/octet-stream')).json()).toEqual({ body: { bytes: 3 }, rawBody: null });
+  });
+
+  test('should reject malformed JSON with 400', async () => {
+    const response = await post('/echo', '{"broken": ', 'application/json');
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as any).error).toContain('Invalid JSON body');
+  });
+
+  test('should reject bodies over the limit with 413', async () => {
+    const response = await post('/echo', JSON.stringify({ data: 'x'.repeat(2048) }), 'application/json');
+    expect(response.status).toBe(413);
+  });
+
+  test('should reject unsupported content types with 415', async () => {
+    const response = await post('/echo', 'data', 'application/x-unknown');
+    expect(response.status).toBe(415);
+  });
+
+  test('should use custom parsers and keep the raw body when asked', async () => {
+    expect(await (await post('/echo', '<note>hi</note>', 'application/xml')).json()).toEqual({ body: { root: 'note' }, rawBody: null });
+
+    const payload = '{"event":"paid"}';
+    expect(await (await post('/echo', payload, 'application/vnd.webhook+json')).json()).toEqual({ body: { event: 'paid' }, rawBody: payload });
+    expect((await post('/echo', '"just a string"', 'application/vnd.webhook+json')).status).toBe(400);
+  });
+
+  test('should leave raw bodies as an unread stream', async () => {
+    expect(await (await post('/proxy', 'pass-through', 'application/x-proxy')).json()).toEqual({ streamed: 'pass-through' });
+  });
+
+  test('should parse size limits', () => {
+    expect(parseSize('1kb')).toBe(1024);
+    expect(parseSize('1.5mb')).toBe(1.5 * 1024 * 1024);
+    expect(parseSize(500)).toBe(500);
+    expect(parseSize(undefined, 42)).toBe(42);
+    expect(() => parseSize('lots')).toThrow();
+  });
+});
+
+describe('Route Path Syntax', () => {
+  test('should capture the rest of the path with a wildcard', () => {
+    const router = new Router();
+    router.get('/files/*path', () => {});
+    
+    expect(router.findRoute('GET', '/files/docs/2024/report.pdf')?.params.path).toBe('docs/2024/report.pdf');
+    expect(router.findRoute('GET', '/files/')).toBeNull();
+    expect(router.findRoute('GET', '/files')).toBeNull();
+  });
+
+  test('should match optional params with and without a value', () => {
+    const router = new Router();
+    router.get('/posts/:page?', () => {});
+    
+    expect(router.findRoute('GET', '/posts')?.params).toEqual({});
+    expect(router.findRoute('GET', '/posts/3')?.params).toEqual({ page: '3' });
+  });
+
+  test('should enforce regex constraints on params', () => {
+    const router = new Router();
+    router.get('/users/:id(\\d+)', () => {});
+    router.get('/users/:slug', () => {});
+    
+    expect(router.findRoute('GET', '/users/42')?.params).toEqual({ id: '42' });
+    expect(router.findRoute('GET', '/users/alice')?.params).toEqual({ slug: 'alice' });
+  });
+
+  test('should capture several params inside one segment', () => {
+    const router = new Router();
+    router.get('/flights/:from-:to', () => {});
+    router.get('/files/:name.:ext', () => {});
+    
+    expect(router.findRoute('GET', '/flights/IST-LHR')?.params).toEqual({ from: 'IST', to: 'LHR' });
+    expect(router.findRoute('GET', '/files/report.pdf')?.params).toEqual({ name: 'report', ext: 'pdf' });
+  });
+
+  test('should URL-decode captured values', () => {
+    const router = new Router();
+    router.get('/tags/:tag', () => {});
+    router.get('/files/*path', () => {});
+    
+    expect(router.findRoute('GET', '/tags/caf%C3%A9%20bar')?.params.tag).toBe('café bar');
+    expect(router.findRoute('GET', '/files/a%20b/c')?.params.path).toBe('a b/c');
+    expect(router.findRoute('GET', '/tags/%E0%A4%A')?.params.tag).toBe('%E0%A4%A');
+  });
+
+  test('should reject wildcards before the last segment', () => {
+    const router = new Router();
+    expect(() => router.get('/files/*path/meta', () => {})).toThrow();
+  });
+
+  test('should type req.params from the path string', async () => {
+    const app = new Efw();
+    app.get('/users/:id/posts/:postId', (req, res) => {
+      res.json({ id: req.params.id, postId: req.params.postId.toUpperCase() });
+    });
+    app.get('/flights/:from-:to/*rest', (req, res) => {
+      const { from, to, rest } = req.params;
+      res.json({ from, to, rest });
+    });
+    app.get('/typo/:postId', (req, res) => {
+      // @ts-expect-error params are inferred, so misspelled names fail type-checking
+      res.json({ value: req.params.postid ?? null });
+    });
+
+    expect((await app.inject({ method: 'GET', url: '/users/1/posts/ab' })).body).toEqual({ id: '1', postId: 'AB' });
+    expect((await app.inject({ method: 'GET', url: '/flights/IST-LHR/a/b' })).body).toEqual({ from: 'IST', to: 'LHR', rest: 'a/b' });
+    expect((await app.inject({ method: 'GET', url: '/typo/1' })).body).toEqual({ value: null });
+  });
+});
+
+describe('Sub-routers', () => {
+  test('should resolve routes through mounted routers', () => {
+    const users = new Router();
+    users.get('/', () => {});
+    users.get('/:id', () => {});
+
+    const api = new Router();
+    api.use('/users', users);
+
+    const root = new Router();
+    root.use('/api/', api);
+
+    const list = root.findRoute('GET', '/api/users');
+    expect(list?.route.path).toBe('/');
+    expect(list?.baseUrl).toBe('/api/users');
+
+    const show = root.findRoute('GET', '/api/users/7');
+    expect(show?.params.id).toBe('7');
+    expect(root.findRoute('GET', '/api/usersx/7')).toBeNull();
+  });
+
+  test('should capture params from the mount path', () => {
+    const posts = new Router();
+    posts.get('/:postId', () => {});
+
+    const root = new Router();
+    root.use('/users/:userId/posts', posts);
+
+    const match = root.findRoute('GET', '/users/3/posts/9');
+    expect(match?.params).toEqual({ userId: '3', postId: '9' });
+    expect(match?.baseUrl).toBe('/users/3/posts');
+  });
+
+  test('should list mounted routes with their full paths', () => {
+    const users = new Router();
+    users.get('/', () => {});
+    users.post('/:id', () => {});
+
+    const root = new Router();
+    root.get('/health', () => {});
+    root.use('/users', users);
+
+    expect(root.getRoutes().map(route => `${route.method} ${route.path}`)).toEqual([
+      'GET /health',
+      'GET /users',
+      'POST /users/:id'
+    ]);
+  });
+
+  test('should run router middleware only for routes inside the router', async () => {
+    const app = new Efw();
+    const users = new Router();
+
+    users.use((req, res, next) => {
+      res.setHeader('X-Users-Router', 'true');
+      next();
+    });
+    users.get('/:id', (req, res) => {
+      res.json({ id: req.params.id, baseUrl: req.baseUrl, originalUrl: req.originalUrl });
+    });
+
+    app.use('/api/users', users);
+    app.get('/health', (req, res) => {
+      res.json({ status: 'ok' });
+    });
+
+    const userResponse = await app.inject({ method: 'GET', url: '/api/users/5?fields=name' });
+    expect(userResponse.status).toBe(200);
+    expect(userResponse.headers['x-users-router']).toBe('true');
+    expect(userResponse.body).toEqual({ id: '5', baseUrl: '/api/users', originalUrl: '/api/users/5?fields=name' });
+
+    const healthResponse = await app.inject({ method: 'GET', url: '/health' });
+    expect(healthResponse.status).toBe(200);
+    expect(healthResponse.headers['x-users-router']).toBeUndefined();
+  });
+
+  test('should scope router middleware to whole path segments', async () => {
+    const app = new Efw();
+    const router = new Router();
+    router.use('/admin/', (req, res) => {
+      res.status(403).json({ error: 'Forbidden' });
+    });
+    router.get('/admin/users', (req, res) => res.json({ page: 'admin' }));
+    router.get('/admin', (req, res) => res.json({ page: 'admin' }));
+    router.get('/administrator', (req, res) => res.json({ page: 'administrator' }));
+    router.get('/admin-foo', (req, res) => res.json({ page: 'admin-foo' }));
+    app.use(router);
+
+    expect((await app.inject({ url: '/admin/users' })).status).toBe(403);
+    expect((await app.inject({ url: '/admin' })).status).toBe(403);
+    expect((await app.inject({ url: '/administrator' })).body).toEqual({ page: 'administrator' });
+    expect((await app.inject({ url: '/admin-foo' })).body).toEqual({ page: 'admin-foo' });
+  });
+});
+
+describe('Virtual Hosts', () => {
+  const createApp = (options = {}) => {
+    const app = new Efw(options);
+    const api = new Router();
+    api.get('/', (req, res) => res.json({ site: 'api' }));
+    api.post('/users', (req, res) => res.status(201).json({ created: true }));
+
+    const tenants = new Router();
+    tenants.get('/', (req, res) => res.json({ site: 'tenant', tenant: req.hostParams.tenant, hostname: req.hostname }));
+
+    app.host('api.example.com', api);
+    app.host(':tenant.shop.example.com', tenants);
+    app.get('/', (req, res) => res.json({ site: 'portfolio' }));
+    app.get('/about', (req, res) => res.json({ page: 'about', hostParams: req.hostParams }));
+    return app;
+  };
+
+  test('should route by host and capture host params', async () => {
+    const app = createApp();
+
+    const api = await app.inject({ url: '/', headers: { Host: 'API.example.com:8080' } });
+    const tenant = await app.inject({ url: '/', headers: { Host: 'acme.shop.example.com' } });
+    const portfolio = await app.inject({ url: '/', headers: { Host: 'example.com' } });
+
+    expect(api.body).toEqual({ site: 'api' });
+    expect(tenant.body).toEqual({ site: 'tenant', tenant: 'acme', hostname: 'acme.shop.example.com' });
+    expect(portfolio.body).toEqual({ site: 'portfolio' });
+  });
+
+  test('should fall back to the default routes and compute Allow per host', async () => {
+    const app = createApp();
+
+    const about = await app.inject({ url: '/about', headers: { Host: 'acme.shop.example.com' } });
+    const wrongMethod = await app.inject({ method: 'DELETE', url: '/users', headers: { Host: 'api.example.com' } });
+    const otherHost = await app.inject({ method: 'POST', url: '/users', headers: { Host: 'example.com' } });
+
+    expect(about.body).toEqual({ page: 'about', hostParams: { tenant: 'acme' } });
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers['allow']).toBe('POST, OPTIONS');
+    expect(otherHost.status).toBe(404);
+  });
+
+  test('should take host params from the host whose router has the route', async () => {
+    const app = new Efw();
+    const regions = new Router();
+    regions.get('/status', (req, res) => res.json({ region: req.hostParams.region }));
+    const tenants = new Router();
+    tenants.get('/billing', (req, res) => res.json({ hostParams: req.hostParams }));
+    app.host(':region.example.com', regions);
+    app.host(':tenant.example.com', tenants);
+
+    const billing = await app.inject({ url: '/billing', headers: { Host: 'acme.example.com' } });
+    const status = await app.inject({ url: '/status', headers: { Host: 'eu.example.com' } });
+
+    expect(billing.body).toEqual({ hostParams: { tenant: 'acme' } });
+    expect(status.body).toEqual({ region: 'eu' });
+  });
+
+  test('should only honour X-Forwarded-Host behind a trusted proxy', async () => {
+    const headers = { Host: 'internal:3000', 'X-Forwarded-Host': 'api.example.com, proxy.local' };
+
+    const untrusted = await createApp().inject({ url: '/', headers });
+    const trusted = await createApp({ trustProxy: true }).inject({ url: '/', headers });
+
+    expect(untrusted.body).toEqual({ site: 'portfolio' });
+    expect(trusted.body).toEqual({ site: 'api' });
+  });
+});
+
+describe('Named Routes', () => {
+  test('should build encoded paths for named routes, mounted routers and plugins', async () => {
+    const app = new Efw();
+    const users = new Router();
+    users.get('/:id', { name: 'user.show' }, () => {});
+    app.use('/users', users);
+    app.get('/files/*path', { name: 'file' }, () => {});
+    app.get('/posts/:page?', { name: 'posts' }, () => {});
+    app.get('/orders/:id(\\d+)', { name: 'order' }, () => {});
+    app.route({ method: ['GET', 'PUT'], path: '/settings', name: 'settings', handler: () => {} });
+    app.register((scope) => {
+      scope.get('/stats', { name: 'internal.stats' }, () => {});
+    }, { prefix: '/internal' });
+    await app.ready();
+
+    expect(app.url('user.show', { id: 'a b/c' })).toBe('/users/a%20b%2Fc');
+    expect(app.url('user.show', { id: 5 }, { query: { tab: 'posts', tag: ['x', 'y'], empty: undefined } }))
+      .toBe('/users/5?tab=posts&tag=x&tag=y');
+    expect(app.url('file', { path: 'docs/read me.md' })).toBe('/files/docs/read%20me.md');
+    expect(app.url('posts')).toBe('/posts');
+    expect(app.url('posts', { page: 2 })).toBe('/posts/2');
+    expect(app.url('order', { id: 42 })).toBe('/orders/42');
+    expect(app.url('settings')).toBe('/settings');
+    expect(app.url('internal.stats')).toBe('/internal/stats');
+  });
+
+  test('should throw for unknown names, missing or invalid params and reused names', () => {
+    const app = new Efw();
+    app.get('/users/:id', { name: 'user.show' }, () => {});
+    app.get('/orders/:id(\\d+)', { name: 'order' }, () => {});
+
+    expect(() => app.url('user.missing')).toThrow('No route named "user.missing"');
+    expect(() => app.url('user.show')).toThrow('Missing param "id" for route "user.show"');
+    expect(() => app.url('order', { id: 'abc' })).toThrow('must match');
+    expect(() => app.get('/people/:id', { name: 'user.show' }, () => {})).toThrow('already used');
+
+    const admins = new Router();
+    admins.get('/:id', { name: 'user.show' }, () => {});
+    expect(() => app.use('/admins', admins)).toThrow('Route name "user.show" is already used by "/users/:id"');
+
+    const orders = new Router();
+    orders.get('/', { name: 'order.list' }, () => {});
+    app.use('/orders', orders);
+    expect(() => app.get('/all-orders', { name: 'order.list' }, () => {})).toThrow('already used by "/orders"');
+    expect(app.url('order.list')).toBe('/orders');
+  });
+
+  test('should expose a url helper to Handlebars and EJS views', async () => {
+    const { mkdtemp, writeFile, rm } = await import('fs/promises');
+    const { tmpdir } = await import('os');
+    const { join } = await import('path');
+    const viewsDir = await mkdtemp(join(tmpdir(), 'efw-views-'));
+
+    try {
+      await writeFile(join(viewsDir, 'profile.hbs'), `<a href="{{url 'user.show' id=user.id query=filters}}">{{user.name}}</a>`);
+      await writeFile(join(viewsDir, 'profile.ejs'), `<a href="<%= url('user.show', { id: user.id }) %>"><%= user.name %></a>`);
+
+      const createApp = (engine: 'handlebars' | 'ejs') => {
+        const app = new Efw({ templateEngine: engine, templateDir: viewsDir });
+        app.get('/users/:id', { name: 'user.show' }, () => {});
+        app.get('/profile', async (req, res) => {
+          await res.render('profile', { user: { id: 7, name: 'Ada' }, filters: { tab: 'posts' } });
+        });
+        return app;
+      };
+
+      const hbs = await createApp('handlebars').inject({ url: '/profile' });
+      const ejs = await createApp('ejs').inject({ url: '/profile' });
+
+      expect(hbs.text).toBe('<a href="/users/7?tab&#x3D;posts">Ada</a>');
+      expect(ejs.text).toBe('<a href="/users/7">Ada</a>');
+    } finally {
+      await rm(viewsDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Lifecycle Hooks', () => {
+  let app: Efw;
+  let events: string[];
+
+  beforeEach(async () => {
+    app = new Efw();
+    events = [];
+
+    app.addHook('onRequest', (req) => {
+      events.push(`onRequest ${req.route === undefined}`);
+    });
+    app.addHook('preHandler', (req) => {
+      events.push(`preHandler ${req.route?.path}`);
+    });
+    app.addHook('onSend', (req, res, payload) => {
+      events.push('onSend');
+      res.setHeader('X-Status', String(res.statusCode));
+    });
+    app.addHook('onResponse', (req, res, responseTime) => {
+      events.push(`onResponse ${res.statusCode} ${responseTime >= 0}`);
+    });
+    app.addHook('onError', (error) => {
+      events.push(`onError ${error.message}`);
+    });
+
+    app.get('/items/:id', {
+      preHandler: (req) => {
+        events.push('route preHandler');
+      },
+      onSend: [
+        (req, res, payload) => JSON.stringify({ ...JSON.parse(payload), wrapped: true })
+      ]
+    }, (req, res) => {
+      events.push('handler');
+      res.json({ id: req.params.id });
+    });
+    app.get('/private', { preHandler: (req, res) => res.status(401).json({ error: 'Unauthorized' }) }, (req, res) => {
+      events.push('handler');
+      res.json({ secret: true });
+    });
+    app.get('/broken', (req, res) => {
+      throw new Error('boom');
+    });
+  });
+
+  test('should run hooks in order and let onSend replace the payload', async () => {
+    const response = await app.inject({ method: 'GET', url: '/items/7' });
+
+    expect(response.body).toEqual({ id: '7', wrapped: true });
+    expect(response.headers['x-status']).toBe('200');
+    expect(events).toEqual([
+      'onRequest true',
+      'preHandler /items/:id',
+      'route preHandler',
+      'handler',
+      'onSend',
+      'onResponse 200 true'
+    ]);
+  });
+
+  test('should keep a handler still running after the commit from changing the head onSend sees', async () => {
+    const streamApp = new Efw();
+    let hookStarted!: () => void;
+    let lateWritesDone!: () => void;
+    const started = new Promise<void>(resolve => (hookStarted = resolve));
+    const lateWrites = new Promise<void>(resolve => (lateWritesDone = resolve));
+    let seen: unknown = 'unset';
+
+    streamApp.addHook('onSend', async (req, res) => {
+      hookStarted();
+      await lateWrites;
+      seen = res.getHeader('X-Late');
+      res.setHeader('X-Hook', 'yes');
+    });
+    streamApp.get('/stream', async (req, res) => {
+      res.write('a');
+      await started;
+      res.status(500);
+      res.setHeader('X-Late', 'yes');
+      lateWritesDone();
+      res.end('b');
+    });
+
+    const response = await streamApp.fetch(new Request('http://localhost/stream'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-hook')).toBe('yes');
+    expect(response.headers.get('x-late')).toBeNull();
+    expect(seen).toBeUndefined();
+    expect(await response.text()).toBe('ab');
+  });
+
+  test('should skip the handler when a preHandler sends a response', async () => {
+    const response = await app.inject({ method: 'GET', url: '/private' });
+
+    expect(response.status).toBe(401);
+    expect(events).not.toContain('handler');
+  });
+
+  test('should run onError and onResponse for failed and unmatched requests', async () => {
+    const broken = await app.inject({ method: 'GET', url: '/broken' });
+    const missing = await app.inject({ method: 'GET', url: '/missing' });
+
+    expect(broken.status).toBe(500);
+    expect(missing.status).toBe(404);
+    expect(events).toContain('onError boom');
+    expect(events).toContain('onResponse 500 true');
+    expect(events).toContain('onResponse 404 true');
+  });
+
+  test('should end the request when onRequest sends a response', async () => {
+    app.addHook('onRequest', (req, res) => {
+      res.status(503).json({ error: 'Maintenance' });
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/items/1' });
+
+    expect(response.status).toBe(503);
+    expect(events).not.toContain('handler');
+  });
+});
+
+describe('Plugins', () => {
+  test('should keep hooks and decorators inside the plugin scope', async () => {
+    const app = new Efw();
+    const seen: string[] = [];
+
+    app.register(async (scope, opts) => {
+      await delay(5);
+      scope.decorate('greeting', opts.greeting);
+      scope.decorateRequest('area', 'admin');
+      scope.addHook('preHandler', (req) => {
+        seen.push(`plugin ${req.path}`);
+      });
+      scope.get('/hello', (req: any, res) => {
+        res.json({ greeting: (scope as any).greeting, area: req.area });
+      });
+    }, { prefix: '/admin/', greeting: 'hi' });
+
+    app.get('/public', (req: any, res) => {
+      res.json({ area: req.area ?? null });
+    });
+
+    const scoped = await app.inject({ method: 'GET', url: '/admin/hello' });
+    const outside = await app.inject({ method: 'GET', url: '/public' });
+
+    expect(scoped.body).toEqual({ greeting: 'hi', area: 'admin' });
+    expect(outside.body).toEqual({ area: null });
+    expect(seen).toEqual(['plugin /admin/hello']);
+    expect(app.hasDecorator('greeting')).toBe(false);
+  });
+
+  test('should apply plugin hooks and decorators to routers mounted in the plugin', async () => {
+    const app = new Efw();
+
+    app.register((scope) => {
+      scope.decorateRequest('area', 'admin');
+      scope.addHook('preHandler', (req, res) => {
+        if (req.headers.authorization !== 'Bearer admin') {
+          res.status(401).json({ error: 'Unauthorized' });
+        }
+      });
+
+      const api = new Router();
+      scope.use('/api', api);
+      // Added after mounting, still guarded
+      api.get('/data', (req: any, res) => {
+        res.json({ area: req.area });
+      });
+    }, { prefix: '/admin' });
+
+    const api = new Router();
+    api.get('/data', (req: any, res) => {
+      res.json({ area: req.area ?? null });
+    });
+    app.use('/api', api);
+
+    const anonymous = await app.inject({ method: 'GET', url: '/admin/api/data' });
+    const admin = await app.inject({ method: 'GET', url: '/admin/api/data', headers: { authorization: 'Bearer admin' } });
+    const outside = await app.inject({ method: 'GET', url: '/api/data' });
+
+    expect(anonymous.status).toBe(401);
+    expect(admin.body).toEqual({ area: 'admin' });
+    expect(outside.body).toEqual({ area: null });
+  });
+
+  test('should share hooks and decorators from non-encapsulated plugins', async () => {
+    const app = new Efw();
+    const shared = definePlugin((scope) => {
+      scope.decorate('db', { name: 'primary' });
+      scope.addHook('onSend', (req, res) => {
+        res.setHeader('X-Shared', 'yes');
+      });
+    }, { name: 'shared', encapsulate: false });
+
+    app.register(shared);
+    app.register((scope) => {
+      scope.get('/nested', (req, res) => {
+        res.json({ db: (scope as any).db.name });
+      });
+    });
+    app.get('/root', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    await app.ready();
+    expect(app.hasDecorator('db')).toBe(true);
+
+    const nested = await app.inject({ method: 'GET', url: '/nested' });
+    const root = await app.inject({ method: 'GET', url: '/root' });
+
+    expect(nested.body).toEqual({ db: 'primary' });
+    expect(root.headers['x-shared']).toBe('yes');
+  });
+
+  test('should load nested plugins before later siblings and check dependencies', async () => {
+    const app = new Efw();
+    const order: string[] = [];
+    const base = definePlugin((scope) => {
+      order.push('base');
+      scope.register(() => {
+        order.push('base child');
+      });
+    }, { name: 'base' });
+    const dependent = definePlugin(() => {
+      order.push('dependent');
+    }, { name: 'dependent', dependencies: ['base'] });
+
+    app.register(base).register(dependent);
+    await app.ready();
+    expect(order).toEqual(['base', 'base child', 'dependent']);
+
+    const other = new Efw();
+    other.register(dependent);
+    await expect(other.ready()).rejects.toThrow('depends on "base"');
+  });
+
+  test('should wait for plugins before listening', async () => {
+    const app = new Efw();
+    app.register(async (scope) => {
+      await delay(10);
+      scope.get('/late', (req, res) => {
+        res.json({ loaded: true });
+      });
+    });
+
+    const server = new TestServer(app);
+    await server.start();
+
+    try {
+      const response = await server.request({ method: 'GET', url: '/late' });
+      expect(response.body).toEqual({ loaded: true });
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('should refuse to serve and stop listening when a plugin fails to load', async () => {
+    const app = new Efw();
+    const port = Math.floor(Math.random() * 10000) + 3000;
+    let listening = false;
+    app.get('/health', (req, res) => {
+      res.json({ ok: true });
+    });
+    app.register(async () => {
+      await delay(10);
+      throw new Error('database unreachable');
+    });
+
+    app.listen(port, () => {
+      listening = true;
+    });
+
+    const queued = await fetch(`http://localhost:${port}/health`);
+    expect(queued.status).toBe(503);
+    await expect(app.ready()).rejects.toThrow('database unreachable');
+    expect((await app.inject({ url: '/health' })).status).toBe(503);
+
+    await app.close();
+    expect(listening).toBe(false);
+    await expect(fetch(`http://localhost:${port}/health`)).rejects.toThrow();
+  });
+});
+
+describe('Dependency Injection', () => {
+  class Clock {
+    now(): number {
+      return 1000;
+    }
+  }
+
+  const RequestLog = new InjectionToken<string[]>('RequestLog');
+
+  test('should cache singletons, rebuild transients and share request instances within a request', () => {
+    const container = new Container();
+    let built = 0;
+    container.register(Clock, () => new Clock());
+    container.register('counter', () => ++built, { scope: 'transient' });
+    container.register(RequestLog, () => [], { scope: 'request' });
+
+    const first = container.createScope();
+    const second = container.createScope();
+
+    expect(first.resolve(Clock)).toBe(second.resolve(Clock));
+    expect(first.resolve<number>('counter')).toBe(1);
+    expect(first.resolve<number>('counter')).toBe(2);
+    expect(first.resolve(RequestLog)).toBe(first.resolve(RequestLog));
+    expect(first.resolve(RequestLog)).not.toBe(second.resolve(RequestLog));
+    expect(() => container.resolve(RequestLog)).toThrow('request-scoped');
+    expect(() => container.resolve('missing')).toThrow('No provider registered for missing');
+  });
+
+  test('should detect circular dependencies', () => {
+    const container = new Container();
+    container.register('a', (c) => c.resolve('b'));
+    container.register('b', (c) => c.resolve('a'));
+
+    expect(() => container.resolve('a')).toThrow('Circular dependency');
+  });
+
+  test('should resolve through req.container, allow overrides and dispose per request and at shutdown', async () => {
+    const app = new Efw();
+    const disposed: string[] = [];
+
+    app.container.register(Clock, () => new Clock(), { dispose: () => { disposed.push('clock'); } });
+    app.container.register(RequestLog, () => ['created'], {
+      scope: 'request',
+      dispose: (log) => { disposed.push(`log ${log.length}`); }
+    });
+    app.get('/time', (req, res) => {
+      const log = req.container.resolve(RequestLog);
+      log.push('handled');
+      res.json({ now: req.container.resolve(Clock).now() });
+    });
+
+    // Tests swap in fakes by registering the token again
+    app.container.registerValue(Clock, { now: () => 42 });
+
+    const response = await app.inject({ url: '/time' });
+
+    expect(response.body).toEqual({ now: 42 });
+    expect(disposed).toEqual(['log 2']);
+
+    await app.close();
+    expect(disposed).toEqual(['log 2']);
+
+    const shutdownApp = new Efw();
+    shutdownApp.container.register(Clock, () => new Clock(), { dispose: () => { disposed.push('clock'); } });
+    shutdownApp.container.resolve(Clock);
+    await shutdownApp.close();
+    expect(disposed).toEqual(['log 2', 'clock']);
+  });
+
+  test('should dispose transients with the scope that resolved them', async () => {
+    const container = new Container();
+    const disposed: number[] = [];
+    let built = 0;
+    container.register('connection', () => ++built, {
+      scope: 'transient',
+      dispose: (id) => { disposed.push(id); }
+    });
+
+    const scope = container.createScope();
+    scope.resolve('connection');
+    scope.resolve('connection');
+    container.resolve('connection');
+
+    await scope.dispose();
+    expect(disposed).toEqual([2, 1]);
+
+    await container.dispose();
+    expect(disposed).toEqual([2, 1, 3]);
+  });
+});
+
+describe('Request Context', () => {
+  // Stands in for a service several calls away from the handler
+  const currentRequestSummary = async () => {
+    await delay(1);
+    const context = getRequestContext()!;
+    return { requestId: context.requestId, user: context.user, locale: context.locale, tenant: context.store.get('tenant') };
+  };
+
+  test('should expose the current request to code that never sees req', async () => {
+    const app = new Efw();
+    app.use((req: any, res: any, next: any) => {
+      req.user = { id: req.headers['x-user'] };
+      getRequestContext()!.store.set('tenant', `tenant-${req.headers['x-user']}`);
+      next();
+    });
+    app.get('/whoami', async (req, res) => {
+      res.json({ ...(await currentRequestSummary()), expected: req.requestId });
+    });
+
+    const [first, second] = await Promise.all([
+      app.inject({ url: '/whoami', headers: { 'X-User': '1', 'Accept-Language': 'de-CH, de;q=0.9' } }),
+      app.inject({ url: '/whoami', headers: { 'X-User': '2' } })
+    ]);
+
+    expect(first.body.requestId).toBe(first.body.expected);
+    expect(first.body).toMatchObject({ user: { id: '1' }, locale: 'de-CH', tenant: 'tenant-1' });
+    expect(second.body).toMatchObject({ user: { id: '2' }, tenant: 'tenant-2' });
+    expect(second.body.locale).toBeUndefined();
+    expect(second.body.requestId).not.toBe(first.body.requestId);
+    expect(getRequestContext()).toBeUndefined();
+  });
+
+  test('should tag log entries and monitor errors with the request id', async () => {
+    const entries: LogEntry[] = [];
+    const log = new Logger({ transports: [{ name: 'memory', write: async (entry) => { entries.push(entry); } }] });
+    const app = new Efw();
+    let requestId: string | undefined;
+    app.addHook('onResponse', createMonitoringHook());
+    app.get('/fail', async (req, res) => {
+      requestId = req.requestId;
+      await log.warn('about to fail');
+      res.status(503).json({ error: 'Unavailable' });
+    });
+
+    await app.inject({ url: '/fail' });
+    await log.info('outside a request');
+
+    expect(entries[0]?.requestId).toBe(requestId!);
+    expect(entries[1]?.requestId).toBeUndefined();
+    expect(Monitor.getInstance().getRecentErrors().some(error => error.requestId === requestId)).toBe(true);
+  });
+});
+
+describe('Request Timeouts', () => {
+  const untilAborted = (signal: AbortSignal) =>
+    new Promise<void>((resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason), { once: true }));
+
+  test('should answer 503 through the error pipeline and abort req.signal', async () => {
+    const app = new Efw({ timeout: 20 });
+    const errors: string[] = [];
+    let reason: any;
+    app.addHook('onError', (error) => {
+      errors.push(error.name);
+    });
+    app.get('/slow', async (req, res) => {
+      try {
+        await untilAborted(req.signal);
+      } catch (error) {
+        reason = error;
+        throw error;
+      }
+      res.json({ done: true });
+    });
+    app.get('/fast', (req, res) => res.json({ aborted: req.signal.aborted }));
+
+    const slow = await app.inject({ url: '/slow' });
+    const fast = await app.inject({ url: '/fast' });
+
+    expect(slow.status).toBe(503);
+    expect(slow.body).toEqual({ error: 'Request timed out' });
+    expect(reason).toBeInstanceOf(TimeoutError);
+    expect(errors).toEqual(['TimeoutError']);
+    expect(fast.body).toEqual({ aborted: false });
+  });
+
+  test('should let a route override the app timeout', async () => {
+    const app = new Efw({ timeout: 10 });
+    app.get('/report', { timeout: 0 }, async (req, res) => {
+      // Well past the app timeout, which would have aborted the signal by now
+      await delay(100);
+      res.json({ aborted: req.signal.aborted });
+    });
+    app.route({
+      method: 'GET',
+      path: '/quick',
+      timeout: 5,
+      handler: async (req, res) => {
+        await untilAborted(req.signal);
+        res.json({ late: true });
+      }
+    });
+
+    expect((await app.inject({ url: '/report' })).body).toEqual({ aborted: false });
+    expect((await app.inject({ url: '/quick' })).status).toBe(503);
+  });
+
+  test('should abort req.signal when the client disconnects', async () => {
+    const app = new Efw();
+    const client = new AbortController();
+    let aborted!: Promise<boolean>;
+    let entered!: () => void;
+    const handlerEntered = new Promise<void>(resolve => (entered = resolve));
+    app.get('/wait', (req, res) => {
+      aborted = untilAborted(req.signal).then(() => false, () => true);
+      entered();
+      return aborted.then(() => res.json({}));
+    });
+
+    app.fetch(new Request('http://localhost/wait', { signal: client.signal }));
+    await handlerEntered;
+    client.abort();
+
+    expect(await aborted).toBe(true);
+  });
+});
+
+describe('Graceful Shutdown', () => {
+  test('should let in-flight requests finish before running onClose hooks', async () => {
+    const app = new Efw();
+    const events: string[] = [];
+    let entered!: () => void;
+    let release!: () => void;
+    const handlerEntered = new Promise<void>(resolve => (entered = resolve));
+    const released = new Promise<void>(resolve => (release = resolve));
+    app.get('/slow', async (req, res) => {
+      entered();
+      await released;
+      events.push('handled');
+      res.json({ ok: true });
+    });
+    app.onClose(() => {
+      events.push('first hook');
+    });
+    app.onClose(async () => {
+      events.push('second hook');
+      throw new Error('hook failure');
+    });
+
+    const server = new TestServer(app);
+    await server.start();
+
+    const pending = fetch(`http://localhost:${server.getPort()}/slow`);
+    await handlerEntered;
+    const closing = app.close();
+
+    expect(app.close()).toBe(closing);
+    release();
+    const response = await pending;
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true });
+
+    await closing;
+    expect(events).toEqual(['handled', 'second hook', 'first hook']);
+  });
+
+  test('should stop waiting for requests once the timeout elapses', async () => {
+    const app = new Efw();
+    let hookRan = false;
+    let entered!: () => void;
+    let release!: () => void;
+    const handlerEntered = new Promise<void>(resolve => (entered = resolve));
+    const released = new Promise<void>(resolve => (release = resolve));
+    app.get('/hang', async (req, res) => {
+      entered();
+      await released;
+      res.json({ ok: true });
+    });
+    app.onClose(() => {
+      hookRan = true;
+    });
+
+    const server = new TestServer(app);
+    await server.start();
+
+    const pending = fetch(`http://localhost:${server.getPort()}/hang`).catch(() => undefined);
+    await handlerEntered;
+
+    // The handler never finishes on its own, so only the timeout can end the wait
+    await app.close({ timeout: 50 });
+
+    expect(hookRan).toBe(true);
+    release();
+    await pending;
+  });
+
+  test('should install and remove signal handlers', async () => {
+    const app = new Efw({ shutdown: { signals: true } });
+    const before = process.listenerCount('SIGTERM');
+
+    const server = new TestServer(app);
+    await server.start();
+    expect(process.listenerCount('SIGTERM')).toBe(before + 1);
+    expect(process.listenerCount('SIGINT')).toBeGreaterThan(0);
+
+    await app.close();
+    expect(process.listenerCount('SIGTERM')).toBe(before);
+  });
+});
+
+describe('Schema Routes', () => {
+  let app: Efw;
+
+  beforeEach(async () => {
+    app = new Efw();
+
+    app.route({
+      method: 'POST',
+      path: '/users/:id',
+      schema: {
+        params: { id: { type: 'number', required: true } },
+        query: { notify: { type: 'boolean' } },
+        body: {
+          name: { type: 'string', required: true, min: 2 },
+          role: { enum: ['admin', 'member'] }
+        },
+        response: {
+          201: { id: { type: 'number', required: true }, name: { type: 'string', required: true } }
+        }
+      },
+      handler: (req, res) => {
+        const id: number = req.params.id;
+        const name: string = req.body!.name;
+        // @ts-expect-error body fields are inferred from the schema
+        req.body!.nmae;
+        res.status(201).json({ id, name, password: 'secret', notify: req.query.notify } as any);
+      }
+    });
+
+    app.route({
+      method: ['GET', 'PUT'],
+      path: '/broken',
+      schema: {
+        response: { 200: { id: { type: 'number', required: true } } }
+      },
+      handler: (req, res) => {
+        res.json({ id: 'not-a-number' } as any);
+      }
+    });
+  });
+
+  test('should validate and coerce inputs and strip undeclared response fields', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/users/42?notify=true',
+      headers: { 'Content-Type': 'application/json' },
+      body: { name: 'Ada', role: 'admin' }
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toEqual({ id: 42, name: 'Ada' });
+  });
+
+  test('should reply 400 when the request does not match the schema', async () => {
+    const badBody = await app.inject({
+      method: 'POST',
+      url: '/users/42',
+      headers: { 'Content-Type': 'application/json' },
+      body: { name: 'A' }
+    });
+    const badParam = await app.inject({
+      method: 'POST',
+      url: '/users/abc',
+      headers: { 'Content-Type': 'application/json' },
+      body: { name: 'Ada' }
+    });
+
+    expect(badBody.status).toBe(400);
+    expect(badBody.body.error).toContain('name');
+    expect(badParam.status).toBe(400);
+    expect(badParam.body.error).toBe('id must be of type number');
+  });
+
+  test('should turn responses that break the schema into 500s', async () => {
+    const response = await app.inject({ method: 'PUT', url: '/broken' });
+
+    expect(response.status).toBe(500);
+    expect(response.body.message).toBe('Response validation failed');
+  });
+
+  test('should keep the schema on the route for tooling', () => {
+    const app = new Efw();
+    app.route({ method: 'GET', path: '/items', schema: { query: { page: { type: 'number' } } }, handler: () => {} });
+
+    expect(app.getRoutes()[0]?.schema?.query?.page?.type).toBe('number');
+  });
+});
+
+describe('In-process Requests', () => {
+  test('should inject requests with JSON bodies, query strings and cookies', async () => {
+    const app = new Efw();
+    app.post('/echo', (req, res) => {
+      res.cookie('seen', 'yes');
+      res.cookie('theme', 'dark mode', { httpOnly: true });
+      res.json({ body: req.body, query: req.query, session: req.cookies.session, lang: req.headers['accept-language'] });
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/echo?page=2',
+      query: { sort: 'name' },
+      headers: { 'Accept-Language': 'en' },
+      cookies: { session: 'abc' },
+      body: { name: 'Ada' }
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('application/json');
+    expect(response.body).toEqual({ body: { name: 'Ada' }, query: { page: '2', sort: 'name' }, session: 'abc', lang: 'en' });
+    expect(response.cookies).toEqual({ seen: 'yes', theme: 'dark mode' });
+    expect(response.setCookies).toHaveLength(2);
+    expect(response.setCookies[1]).toContain('HttpOnly');
+    expect(response.headers['set-cookie']).toBeUndefined();
+  });
+
+  test('should return text bodies and run hooks and plugins like a real request', async () => {
+    const app = new Efw();
+    app.addHook('onSend', (req, res, payload) => (typeof payload === 'string' ? payload.toUpperCase() : undefined));
+    app.register(async (scope) => {
+      await delay(5);
+      scope.get('/hello', (req, res) => res.send('hello'));
+    }, { prefix: '/plugin' });
+
+    const hello = await app.inject({ url: '/plugin/hello' });
+    const missing = await app.inject({ method: 'DELETE', url: '/plugin/hello' });
+
+    expect(hello.status).toBe(200);
+    expect(hello.body).toBe('HELLO');
+    expect(hello.text).toBe('HELLO');
+    expect(missing.status).toBe(405);
+    expect(missing.headers['allow']).toBe('GET, HEAD, OPTIONS');
+  });
+
+  test('should expose a bound fetch handler for composing into other servers', async () => {
+    const app = new Efw();
+    app.get('/users/:id', (req, res) => res.json({ id: req.params.id }));
+
+    const { fetch } = app;
+    const response = await fetch(new Request('http://localhost/users/7'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: '7' });
+
+    const server = Bun.serve({ port: 0, fetch: app.fetch });
+    try {
+      const viaServer = await globalThis.fetch(`http://localhost:${server.port}/users/8`);
+      expect(await viaServer.json()).toEqual({ id: '8' });
+    } finally {
+      server.stop(true);
+    }
+  });
 });
 
 describe('Validation', () => {
@@ -141,6 +2038,112 @@ describe('Error Handling', () => {
     expect(error.field).toBe('email');
     expect(error.value).toBe('invalid@');
   });
+
+  test('should pass sync and async route handler errors to error middleware', async () => {
+    const app = new Efw();
+    const seen: string[] = [];
+    app.get('/sync', () => {
+      throw new Error('sync failure');
+    });
+    app.get('/async', async (req, res, next) => {
+      await next!();
+    }, async () => {
+      await delay(1);
+      throw new Error('async failure');
+    });
+    app.use((error: Error, req: any, res: any, next: any) => {
+      seen.push(error.message);
+      res.status(502).json({ handled: error.message });
+    });
+
+    const sync = await app.inject({ url: '/sync' });
+    const async = await app.inject({ url: '/async' });
+
+    expect(sync.status).toBe(502);
+    expect(sync.body).toEqual({ handled: 'sync failure' });
+    expect(async.body).toEqual({ handled: 'async failure' });
+    expect(seen).toEqual(['sync failure', 'async failure']);
+  });
+
+  test('should skip to the next error handler with next(err) and when a handler throws', async () => {
+    const app = new Efw();
+    app.get('/fail', () => {
+      throw new Error('original');
+    });
+    app.use((error: Error, req: any, res: any, next: any) => next(new EfwError(`wrapped ${error.message}`, 409)));
+    app.use((error: Error, req: any, res: any, next: any) => {
+      throw new EfwError(`${error.message} and rethrown`, 422);
+    });
+    app.use((error: Error, req: any, res: any, next: any) => {
+      res.status((error as EfwError).statusCode).json({ error: error.message });
+    });
+
+    const response = await app.inject({ url: '/fail' });
+
+    expect(response.status).toBe(422);
+    expect(response.body).toEqual({ error: 'wrapped original and rethrown' });
+  });
+
+  test('should fall back to EfwError.statusCode when no error handler responds', async () => {
+    const app = new Efw();
+    const logged: Error[] = [];
+    app.use(async (req: any, res: any, next: any) => {
+      if (req.path === '/middleware') throw new EfwError('Slow down', 429);
+      await next();
+    });
+    app.get('/missing', async () => {
+      throw new EfwError('No such user', 404);
+    });
+    app.get('/crash', () => {
+      throw new Error('database is down');
+    });
+    app.use((error: Error, req: any, res: any, next: any) => {
+      logged.push(error);
+      next();
+    });
+
+    const missing = await app.inject({ url: '/missing' });
+    const limited = await app.inject({ url: '/middleware' });
+    const crash = await app.inject({ url: '/crash' });
+
+    expect(missing.status).toBe(404);
+    expect(missing.body).toEqual({ error: 'No such user' });
+    expect(limited.status).toBe(429);
+    expect(crash.status).toBe(500);
+    expect(crash.body).toEqual({ error: 'Internal Server Error', message: 'database is down' });
+    expect(logged.map(error => error.message)).toEqual(['No such user', 'Slow down', 'database is down']);
+  });
+
+  test('should let middleware await next() and stop the pipeline once they respond', async () => {
+    const app = new Efw();
+    let handlerRan = false;
+    app.use(async (req: any, res: any, next: any) => {
+      try {
+        await next();
+      } catch (error) {
+        res.status(503).json({ caught: (error as Error).message });
+      }
+    });
+    app.use((req: any, res: any, next: any) => {
+      if (req.headers['x-block']) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      next();
+    });
+    app.get('/guarded', () => {
+      handlerRan = true;
+    });
+    app.post('/body', (req, res) => res.json(req.body));
+    app.use((error: Error, req: any, res: any, next: any) => next(error));
+
+    const blocked = await app.inject({ url: '/guarded', headers: { 'X-Block': '1' } });
+    const badBody = await app.inject({ method: 'POST', url: '/body', headers: { 'Content-Type': 'application/json' }, body: '{' });
+
+    expect(blocked.status).toBe(401);
+    expect(handlerRan).toBe(false);
+    expect(badBody.status).toBe(400);
+  });
 });
 
 describe('Common Schemas', () => {
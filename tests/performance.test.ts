@@ -7,6 +7,7 @@ import {
   delay,
   performanceTest
 } from './test-helpers';
+import { Router } from '../src/router';
 
 describe('Performance Tests', () => {
   let testServer: TestServer;
@@ -425,4 +426,60 @@ describe('Performance Tests', () => {
         - Concurrent requests: ${concurrentTime.toFixed(2)}ms for ${benchmarks.concurrentRequests.requests} requests`);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Route Matching Performance', () => {
+  test('should match late-registered routes faster than a linear regex scan', () => {
+    const routeCount = 500;
+    const lookups = 20000;
+    const router = new Router();
+    const linearRoutes: Array<{ method: string; pattern: RegExp; keys: string[] }> = [];
+
+    for (let i = 0; i < routeCount; i++) {
+      router.get(`/api/resource${i}/:id`, () => {});
+      router.post(`/api/resource${i}/:id/items/:itemId`, () => {});
+      linearRoutes.push(
+        { method: 'GET', pattern: new RegExp(`^\\/api\\/resource${i}\\/([^/]+)$`), keys: ['id'] },
+        { method: 'POST', pattern: new RegExp(`^\\/api\\/resource${i}\\/([^/]+)\\/items\\/([^/]+)$`), keys: ['id', 'itemId'] }
+      );
+    }
+
+    // Reference implementation of the previous linear scan
+    const linearFind = (method: string, path: string) => {
+      for (const route of linearRoutes) {
+        if (route.method !== method) continue;
+        const match = path.match(route.pattern);
+        if (match) {
+          const params: Record<string, string> = {};
+          route.keys.forEach((key, index) => {
+            params[key] = match[index + 1]!;
+          });
+          return params;
+        }
+      }
+      return null;
+    };
+
+    const path = `/api/resource${routeCount - 1}/7/items/42`;
+    expect(router.findRoute('POST', path)?.params).toEqual({ id: '7', itemId: '42' });
+    expect(linearFind('POST', path)).toEqual({ id: '7', itemId: '42' });
+
+    const linearStart = performance.now();
+    for (let i = 0; i < lookups; i++) {
+      linearFind('POST', path);
+    }
+    const linearTime = performance.now() - linearStart;
+
+    const treeStart = performance.now();
+    for (let i = 0; i < lookups; i++) {
+      router.findRoute('POST', path);
+    }
+    const treeTime = performance.now() - treeStart;
+
+    expect(treeTime).toBeLessThan(linearTime);
+
+    console.log(`Route matching (${routeCount * 2} routes, ${lookups} lookups):
+        - Linear regex scan: ${linearTime.toFixed(2)}ms
+        - Radix tree: ${treeTime.toFixed(2)}ms (${(linearTime / treeTime).toFixed(1)}x faster)`);
+  });
+});
@@ -13,9 +13,18 @@ import {
   ResponseBuilder,
   AssetVersioning,
   ApiClient,
-  ErrorPages
+  ErrorPages,
+  parseMultipart,
+  monitorPlugin,
+  devToolsPlugin,
+  adminPlugin,
+  AdminPanel
 } from '../src/utils';
-import { setupTestEnv, cleanupTestEnv, delay, generateTestData } from './test-helpers';
+import { Efw } from '../src/framework';
+import { existsSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { setupTestEnv, cleanupTestEnv, delay, generateTestData, TestServer } from './test-helpers';
 import TEST_CONFIG from './test.config';
 
 describe('Environment Helper', () => {
@@ -276,6 +285,157 @@ describe('Cookie Helper', () => {
   });
 });
 
+describe('Multipart Parser', () => {
+  const boundary = 'efw-test-boundary';
+  const contentType = `multipart/form-data; boundary=${boundary}`;
+
+  const buildBody = (parts: string[]) => parts.map(part => `--${boundary}\r\n${part}\r\n`).join('') + `--${boundary}--\r\n`;
+
+  // Splits the body into tiny chunks so delimiters straddle chunk boundaries
+  const toStream = (body: string, chunkSize: number = 7) => {
+    const bytes = new TextEncoder().encode(body);
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += chunkSize) {
+          controller.enqueue(bytes.slice(i, i + chunkSize));
+        }
+        controller.close();
+      }
+    });
+  };
+
+  const body = buildBody([
+    'Content-Disposition: form-data; name="name"\r\n\r\nAda Lovelace',
+    'Content-Disposition: form-data; name="tags"\r\n\r\nmath',
+    'Content-Disposition: form-data; name="tags"\r\n\r\npoetry',
+    'Content-Disposition: form-data; name="avatar"; filename="ada.png"\r\nContent-Type: image/png\r\n\r\nPNGDATA\r\n--not-a-boundary',
+    'Content-Disposition: form-data; name="empty"; filename=""\r\nContent-Type: application/octet-stream\r\n\r\n'
+  ]);
+
+  test('should parse fields and files from a chunked body', async () => {
+    const { fields, files } = await parseMultipart(toStream(body), contentType);
+
+    expect(fields).toEqual({ name: 'Ada Lovelace', tags: ['math', 'poetry'] });
+    expect(files.avatar).toHaveLength(1);
+    expect(files.avatar![0]!.filename).toBe('ada.png');
+    expect(files.avatar![0]!.mimeType).toBe('image/png');
+    expect(new TextDecoder().decode(files.avatar![0]!.data)).toBe('PNGDATA\r\n--not-a-boundary');
+    expect(files.empty).toBeUndefined();
+  });
+
+  test('should stream files to a temp directory', async () => {
+    const tempDir = join(tmpdir(), `efw-multipart-${Date.now()}`);
+
+    try {
+      const { files } = await parseMultipart(toStream(body), contentType, { tempDir });
+      const avatar = files.avatar![0]!;
+
+      expect(avatar.data).toBeUndefined();
+      expect(avatar.size).toBe('PNGDATA\r\n--not-a-boundary'.length);
+      expect(readFileSync(avatar.path!, 'utf8')).toBe('PNGDATA\r\n--not-a-boundary');
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should enforce limits and MIME filters', async () => {
+    await expect(parseMultipart(toStream(body), contentType, { maxFileSize: 4 })).rejects.toMatchObject({ statusCode: 413 });
+    await expect(parseMultipart(toStream(body), contentType, { maxFieldSize: 5 })).rejects.toMatchObject({ statusCode: 413 });
+    await expect(parseMultipart(toStream(body), contentType, { maxFiles: 0 })).rejects.toMatchObject({ statusCode: 413 });
+    await expect(parseMultipart(toStream(body), contentType, { allowedMimeTypes: ['application/pdf'] })).rejects.toMatchObject({ statusCode: 415 });
+
+    const { files } = await parseMultipart(toStream(body), contentType, { allowedMimeTypes: ['image/*'] });
+    expect(files.avatar).toHaveLength(1);
+  });
+
+  test('should remove temp files when an upload is rejected', async () => {
+    const tempDir = join(tmpdir(), `efw-multipart-${Date.now()}`);
+
+    try {
+      await expect(parseMultipart(toStream(body), contentType, { tempDir, maxFileSize: 4 })).rejects.toMatchObject({ statusCode: 413 });
+      expect(existsSync(tempDir) ? readdirSync(tempDir) : []).toHaveLength(0);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should reject truncated bodies', async () => {
+    const truncated = body.slice(0, body.length - 10);
+    await expect(parseMultipart(toStream(truncated), contentType)).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('Built-in Plugins', () => {
+  test('should serve monitor, devtools and guarded admin routes', async () => {
+    const app = new Efw();
+    app.register(monitorPlugin)
+      .register(devToolsPlugin)
+      .register(adminPlugin, {
+        guard: (req, res) => {
+          if (req.headers['x-admin'] !== 'yes') {
+            res.status(401).json({ error: 'Unauthorized' });
+          }
+        }
+      });
+    app.get('/hello', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    const server = new TestServer(app);
+    await server.start();
+
+    try {
+      await server.request({ method: 'GET', url: '/hello' });
+      const metrics = await server.request({ method: 'GET', url: '/dev/metrics' });
+      const denied = await server.request({ method: 'GET', url: '/admin/config' });
+      const allowed = await server.request({ method: 'GET', url: '/admin/config', headers: { 'X-Admin': 'yes' } });
+      const routes = await server.request({ method: 'GET', url: '/dev/routes' });
+
+      expect(metrics.body.requests.some((entry: any) => entry.path === '/hello')).toBe(true);
+      expect(denied.status).toBe(401);
+      expect(allowed.status).toBe(200);
+      expect(allowed.headers['content-type']).toContain('text/html');
+      expect(routes.status).toBe(200);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('should link between built-in pages by route name', async () => {
+    const app = new Efw();
+    app.register(monitorPlugin, { path: '/_dev' })
+      .register(devToolsPlugin, { path: '/_dev' })
+      .register(adminPlugin, { path: '/_admin' });
+
+    const config = await app.inject({ url: '/_admin/config' });
+    const routes = await app.inject({ url: '/_dev/routes' });
+    const dashboard = await app.inject({ url: '/_dev/dashboard' });
+    const main = await app.inject({ url: '/_admin' });
+    const adminDashboard = await app.inject({ url: '/_admin/dashboard' });
+    const refreshed = await app.inject({ method: 'POST', url: '/_admin/api/assets/refresh' });
+
+    expect(app.url('admin.config.reload')).toBe('/_admin/api/config/reload');
+    expect(config.text).toContain(`fetch('/_admin/api/config/reload'`);
+    expect(config.text).toContain('href="/_admin"');
+    expect(routes.text).toContain('href="/_dev/dashboard"');
+    expect(dashboard.text).toContain('new EventSource("/_dev/metrics/stream")');
+    expect(dashboard.text).not.toContain('location.reload');
+    expect(adminDashboard.text).toContain('new EventSource("/_dev/metrics/stream")');
+    expect(main.text).toContain(`fetch('/_admin/api/assets/refresh'`);
+    expect(main.text).not.toContain("'/admin");
+    expect(main.text).not.toContain('"/admin');
+    expect(refreshed.body).toEqual({ success: true });
+    expect(AdminPanel.getInstance().generateLoginPage()).toContain('fetch("/_admin/login"');
+  });
+
+  test('should reject the admin plugin without its dependencies', async () => {
+    const app = new Efw();
+    app.register(adminPlugin);
+
+    await expect(app.ready()).rejects.toThrow('depends on "efw-monitor"');
+  });
+});
+
 describe('Query String Parser', () => {
   const parser = new QueryStringParser();
 